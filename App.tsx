@@ -1,12 +1,49 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Character, ToolType, GeneratedContent, Scene, SoundEffect } from './types';
+import { AutosaveSlot, Character, ToolType, GeneratedContent, ImageAspectRatio, Scene, SceneBundle, SceneRevision, SoundEffect } from './types';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { Canvas } from './components/Canvas';
 import { ControlsPanel } from './components/ControlsPanel';
 import { CharacterCreatorModal } from './components/CharacterCreatorModal';
+import { ImportReviewModal } from './components/ImportReviewModal';
+import { SceneConflict, SceneConflictBanner } from './components/SceneConflictBanner';
+import { AutosaveRecoveryModal } from './components/AutosaveRecoveryModal';
+import { StorageDashboardModal } from './components/StorageDashboardModal';
+import { SettingsModal } from './components/SettingsModal';
+import { UsageModal } from './components/UsageModal';
+import { JobsPanel } from './components/JobsPanel';
+import { JobNotice } from './components/JobNotice';
 import { downloadJson } from './utils/fileUtils';
+import { PAYLOAD_FORMATS, wrapPayload } from './utils/schemaUtils';
+import { createSceneBundle, importSceneBundle } from './services/bundleService';
+import { CharacterImportItem, applyCharacterImport, classifyCharacterImport } from './utils/importUtils';
+import { appendRevision, createSceneRevision, sceneAtRevision } from './utils/revisionUtils';
+import { AppSettings, loadSettings, saveSettings } from './utils/settingsUtils';
+import { loadUnclaimedPendingVideos } from './utils/pendingVideoUtils';
+import { resumeVideo } from './services/generationService';
+import { GenerationError, toGenerationError } from './services/generationErrors';
+import { GenerationJob, GenerationJobSpec, GenerationResult, JobQueue, createJobQueue, isJobActive, toGeneratedContent } from './services/jobQueue';
+import { CleanupPlan, findDanglingReferences, removeCharacterReferences } from './utils/cleanupUtils';
+import { MAX_AUTOSAVE_SLOTS, isEmptyComposition, isSameComposition, loadAutosaveInterval, saveAutosaveInterval } from './utils/autosaveUtils';
+import { loadLibrary, saveCharacters, saveScenes, saveSoundLibrary, persistGeneratedMedia, restoreGeneratedMedia, loadAutosaves, writeAutosaveSlot, deleteAssets, DatabaseBlockedError } from './services/storageService';
+import { LibraryCollections, SyncChannel, SyncMessage, applyDelta, createSyncChannel, diffCollection, isEmptyDelta } from './services/syncService';
+
+interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  coalesceKey?: string;
+  sealed?: boolean;
+  timestamp: number;
+}
+
+const MAX_HISTORY = 100;
+// Edits with the same coalesce key closer together than this merge into a single undo step
+const HISTORY_COALESCE_MS = 1000;
+
+// The parts of a scene that the builder edits
+type SceneComposition = Pick<Scene, 'characterIds' | 'prompt' | 'soundEffect' | 'rotations' | 'positions' | 'aspectRatio' | 'generatedContent'>;
 
 function App() {
   const [characters, setCharacters] = useState<Character[]>([]);
@@ -23,20 +60,75 @@ function App() {
   
   const [characterRotations, setCharacterRotations] = useState<Record<string, number>>({});
   const [characterPositions, setCharacterPositions] = useState<Record<string, { x: number; y: number }>>({});
+  const [sceneAspectRatio, setSceneAspectRatio] = useState<ImageAspectRatio>('1:1');
 
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState('');
   const [generatedContent, setGeneratedContent] = useState<GeneratedContent | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // Alternatives to the canvas image from the same generation, until the user settles on one
+  const [candidates, setCandidates] = useState<{ urls: string[]; prompt: string } | null>(null);
+  const [error, setError] = useState<string | GenerationError | null>(null);
+  const [retryGeneration, setRetryGeneration] = useState<(() => void) | null>(null);
+
+  // Background generations. The canvas follows at most one of them (the last one started or
+  // watched); the others finish into the jobs panel.
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [canvasJobId, setCanvasJobId] = useState<string | null>(null);
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
+  // Outcome of a background job worth telling the user about
+  const [jobNotice, setJobNotice] = useState<GenerationJob | null>(null);
+  const jobQueueRef = useRef<JobQueue | null>(null);
+  const jobsRef = useRef<GenerationJob[]>([]);
+  const canvasJobIdRef = useRef<string | null>(null);
 
   const [isCreatorModalOpen, setIsCreatorModalOpen] = useState(false);
+  // Library character open in the creator, if it was opened for editing
+  const [editingCharacter, setEditingCharacter] = useState<Character | undefined>(undefined);
+  const [pendingImport, setPendingImport] = useState<CharacterImportItem[] | null>(null);
+  const [sceneConflict, setSceneConflict] = useState<SceneConflict | null>(null);
+  // The open scene as another tab just saved it, loaded as is since this tab had no unsaved edits
+  const [sceneToAdopt, setSceneToAdopt] = useState<Scene | null>(null);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+
+  const [autosaveInterval, setAutosaveInterval] = useState(loadAutosaveInterval);
+  const [autosaveSlots, setAutosaveSlots] = useState<AutosaveSlot[] | null>(null);
+  // Autosave starts once the startup recovery prompt has been answered, so a fresh session
+  // does not roll the slots the user may still want to restore out of the set.
+  const [isAutosaveReady, setIsAutosaveReady] = useState(false);
+  const lastAutosaveRef = useRef<Omit<AutosaveSlot, 'id' | 'savedAt'> | null>(null);
+
+  // Persisting is held off until the stored library has loaded, otherwise the initial
+  // empty state would overwrite it.
+  const [isLibraryLoaded, setIsLibraryLoaded] = useState(false);
+
+  // The library as last agreed with other tabs. Local changes are diffed against it to find
+  // what to broadcast; changes received from other tabs are applied to it as well as to state,
+  // so they are persisted here but never echoed back.
+  const syncedLibraryRef = useRef<LibraryCollections>({ characters: [], scenes: [], soundLibrary: [] });
+  const syncChannelRef = useRef<SyncChannel | null>(null);
+
+  // Undo/redo history for scene builder edits. Commands are kept in refs so handlers stay stable;
+  // `historyState` only exists to re-render the toolbar buttons.
+  const undoStackRef = useRef<HistoryCommand[]>([]);
+  const redoStackRef = useRef<HistoryCommand[]>([]);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
+  // Guards against a slow media restore from an earlier scene load overwriting a later one
+  const loadSceneRequestRef = useRef(0);
 
   // Refs for autosave to access current state in interval
   const scenePromptRef = useRef(scenePrompt);
   const selectedCharacterIdsRef = useRef(selectedCharacterIds);
+  // Characters deleted this session. Selections recorded in the history before a deletion
+  // still hold their ids, so undo and redo leave them out.
+  const deletedCharacterIdsRef = useRef(new Set<string>());
   const characterRotationsRef = useRef(characterRotations);
   const characterPositionsRef = useRef(characterPositions);
+  const sceneAspectRatioRef = useRef(sceneAspectRatio);
   const sceneSoundEffectRef = useRef(sceneSoundEffect);
+  const currentSceneIdRef = useRef(currentSceneId);
+  const generatedContentRef = useRef(generatedContent);
 
   // Sync refs with state
   useEffect(() => {
@@ -55,180 +147,736 @@ function App() {
     characterPositionsRef.current = characterPositions;
   }, [characterPositions]);
 
+  useEffect(() => {
+    sceneAspectRatioRef.current = sceneAspectRatio;
+  }, [sceneAspectRatio]);
+
   useEffect(() => {
     sceneSoundEffectRef.current = sceneSoundEffect;
   }, [sceneSoundEffect]);
 
+  useEffect(() => {
+    currentSceneIdRef.current = currentSceneId;
+  }, [currentSceneId]);
 
-  // Load from LocalStorage
   useEffect(() => {
-    try {
-      const savedChars = localStorage.getItem('css_characters');
-      if (savedChars) {
-        setCharacters(JSON.parse(savedChars));
-      }
-      const savedScenes = localStorage.getItem('css_scenes');
-      if (savedScenes) {
-        setScenes(JSON.parse(savedScenes));
-      }
-      const savedSounds = localStorage.getItem('css_sound_library');
-      if (savedSounds) {
-        setSoundLibrary(JSON.parse(savedSounds));
-      }
+    generatedContentRef.current = generatedContent;
+  }, [generatedContent]);
 
-      // Load autosave
-      const autosavedData = localStorage.getItem('css_autosave');
-      if (autosavedData) {
-        const parsed = JSON.parse(autosavedData);
-        if (parsed.prompt) setScenePrompt(parsed.prompt);
-        if (parsed.characterIds) setSelectedCharacterIds(parsed.characterIds);
-        if (parsed.rotations) setCharacterRotations(parsed.rotations);
-        if (parsed.positions) setCharacterPositions(parsed.positions);
-        if (parsed.soundEffect) setSceneSoundEffect(parsed.soundEffect);
-      }
-    } catch (e) {
-      console.error("Failed to load from local storage", e);
-    }
+  useEffect(() => {
+    canvasJobIdRef.current = canvasJobId;
+  }, [canvasJobId]);
+
+
+  // Revoke object URLs for generated media once it is no longer shown.
+  // Job results stay alive until their job is removed, so they can be reopened.
+  useEffect(() => {
+    const url = generatedContent?.url;
+    return () => {
+      if (url?.startsWith('blob:') && !jobsRef.current.some(job => job.result?.url === url)) URL.revokeObjectURL(url);
+    };
+  }, [generatedContent?.url]);
+
+  // Load the library from IndexedDB (migrating any legacy localStorage data on first run)
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrary()
+      .then(library => {
+        if (cancelled) return;
+        syncedLibraryRef.current = { ...library };
+        setCharacters(library.characters);
+        setScenes(library.scenes);
+        setSoundLibrary(library.soundLibrary);
+        setIsLibraryLoaded(true);
+      })
+      .catch(e => {
+        console.error("Failed to load library", e);
+        if (cancelled) return;
+        setError(e instanceof DatabaseBlockedError ? e.message : "Failed to load your saved library. Changes will not be saved this session.");
+      });
+    return () => { cancelled = true; };
   }, []);
 
-  // Autosave interval
+  // Offer to recover autosaved work once the library (which slots refer to) has loaded
   useEffect(() => {
-    const interval = setInterval(() => {
-      const dataToSave = {
+    if (!isLibraryLoaded) return;
+    let cancelled = false;
+    loadAutosaves()
+      .then(slots => {
+        if (cancelled) return;
+        if (slots.length > 0) {
+          // Restoring the newest slot does not write it again as a new one
+          lastAutosaveRef.current = slots[0];
+          setAutosaveSlots(slots);
+        } else {
+          setIsAutosaveReady(true);
+        }
+      })
+      .catch(e => {
+        console.error("Failed to load autosaves", e);
+        if (!cancelled) setIsAutosaveReady(true);
+      });
+    return () => { cancelled = true; };
+  }, [isLibraryLoaded]);
+
+  // Autosave interval. A slot is only written when the builder changed since the last one.
+  useEffect(() => {
+    if (!isAutosaveReady || autosaveInterval === 0) return;
+    const interval = setInterval(async () => {
+      const composition = {
         prompt: scenePromptRef.current,
         characterIds: selectedCharacterIdsRef.current,
         rotations: characterRotationsRef.current,
         positions: characterPositionsRef.current,
+        aspectRatio: sceneAspectRatioRef.current,
         soundEffect: sceneSoundEffectRef.current,
-        timestamp: Date.now()
+        currentSceneId: currentSceneIdRef.current,
+        generatedContent: generatedContentRef.current || undefined,
       };
-      localStorage.setItem('css_autosave', JSON.stringify(dataToSave));
-    }, 60000); // 60 seconds
+      if (lastAutosaveRef.current && isSameComposition(lastAutosaveRef.current, composition)) return;
+      // A blank builder would only push real work out of the slots
+      if (isEmptyComposition(composition)) return;
+      lastAutosaveRef.current = composition;
+
+      try {
+        // Video and audio results only survive a reload once their blob is persisted
+        const content = composition.generatedContent;
+        if (content) {
+          const persisted = await persistGeneratedMedia(content);
+          if (persisted !== content) {
+            composition.generatedContent = persisted;
+            setGeneratedContent(prev => prev?.url === persisted.url ? persisted : prev);
+          }
+        }
+        await writeAutosaveSlot({ id: crypto.randomUUID(), savedAt: Date.now(), ...composition }, MAX_AUTOSAVE_SLOTS);
+      } catch (e) {
+        console.error("Failed to autosave", e);
+      }
+    }, autosaveInterval);
 
     return () => clearInterval(interval);
+  }, [isAutosaveReady, autosaveInterval]);
+
+  // Merge library changes made in other tabs
+  useEffect(() => {
+    const channel = createSyncChannel((message: SyncMessage) => {
+      const synced = syncedLibraryRef.current;
+      switch (message.collection) {
+        case 'characters':
+          synced.characters = applyDelta(synced.characters, message.delta);
+          setCharacters(prev => applyDelta(prev, message.delta));
+          if (message.delta.deletedIds.length > 0) {
+            message.delta.deletedIds.forEach(id => deletedCharacterIdsRef.current.add(id));
+            setSelectedCharacterIds(prev => prev.filter(id => !message.delta.deletedIds.includes(id)));
+          }
+          break;
+        case 'soundLibrary':
+          synced.soundLibrary = applyDelta(synced.soundLibrary, message.delta);
+          setSoundLibrary(prev => applyDelta(prev, message.delta));
+          break;
+        case 'scenes': {
+          // The scene open in this tab was saved or deleted elsewhere. Unless the builder still
+          // matches the scene as last saved or synced here, let the user decide what wins.
+          const openSceneId = currentSceneIdRef.current;
+          const openScene = synced.scenes.find(s => s.id === openSceneId);
+          const theirs = message.delta.upserts.find(s => s.id === openSceneId);
+          if (openSceneId && theirs) {
+            const hasLocalEdits = !openScene || !isSameComposition({
+              prompt: scenePromptRef.current,
+              characterIds: selectedCharacterIdsRef.current,
+              rotations: characterRotationsRef.current,
+              positions: characterPositionsRef.current,
+              aspectRatio: sceneAspectRatioRef.current,
+              soundEffect: sceneSoundEffectRef.current,
+              currentSceneId: openSceneId,
+              generatedContent: generatedContentRef.current || undefined,
+            }, {
+              prompt: openScene.prompt,
+              characterIds: openScene.characterIds,
+              rotations: openScene.rotations || {},
+              positions: openScene.positions || {},
+              aspectRatio: openScene.aspectRatio || '1:1',
+              soundEffect: openScene.soundEffect,
+              currentSceneId: openSceneId,
+              generatedContent: openScene.generatedContent,
+            });
+            if (hasLocalEdits) {
+              setSceneConflict({ sceneId: theirs.id, sceneName: theirs.name, deleted: false });
+            } else {
+              setSceneToAdopt(theirs);
+            }
+          } else if (openSceneId && message.delta.deletedIds.includes(openSceneId)) {
+            setSceneConflict({ sceneId: openSceneId, sceneName: openScene?.name || 'Untitled Scene', deleted: true });
+            setCurrentSceneId(null);
+          }
+          // Scenes are listed newest first
+          synced.scenes = applyDelta(synced.scenes, message.delta, 'start');
+          setScenes(prev => applyDelta(prev, message.delta, 'start'));
+          break;
+        }
+      }
+    });
+    syncChannelRef.current = channel;
+    return () => {
+      channel.close();
+      syncChannelRef.current = null;
+    };
   }, []);
 
-  // Save to LocalStorage whenever they change
+  // Persist to IndexedDB whenever they change, then tell other tabs what changed locally
   useEffect(() => {
-    localStorage.setItem('css_characters', JSON.stringify(characters));
-  }, [characters]);
+    if (!isLibraryLoaded) return;
+    const delta = diffCollection(syncedLibraryRef.current.characters, characters);
+    syncedLibraryRef.current.characters = characters;
+    saveCharacters(characters)
+      .then(() => {
+        if (!isEmptyDelta(delta)) syncChannelRef.current?.broadcast({ collection: 'characters', delta });
+      })
+      .catch(e => {
+        console.error("Failed to save characters", e);
+        setError("Failed to save the character library.");
+      });
+  }, [characters, isLibraryLoaded]);
+
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+    const delta = diffCollection(syncedLibraryRef.current.scenes, scenes);
+    syncedLibraryRef.current.scenes = scenes;
+    saveScenes(scenes)
+      .then(() => {
+        if (!isEmptyDelta(delta)) syncChannelRef.current?.broadcast({ collection: 'scenes', delta });
+      })
+      .catch(e => {
+        console.error("Failed to save scenes", e);
+        setError("Failed to save scenes.");
+      });
+  }, [scenes, isLibraryLoaded]);
+
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+    const delta = diffCollection(syncedLibraryRef.current.soundLibrary, soundLibrary);
+    syncedLibraryRef.current.soundLibrary = soundLibrary;
+    saveSoundLibrary(soundLibrary)
+      .then(() => {
+        if (!isEmptyDelta(delta)) syncChannelRef.current?.broadcast({ collection: 'soundLibrary', delta });
+      })
+      .catch(e => {
+        console.error("Failed to save sound library", e);
+        setError("Failed to save the sound library.");
+      });
+  }, [soundLibrary, isLibraryLoaded]);
+
 
+  // Failed generations are classified so the canvas can explain them, and keep a way to repeat the request.
+  // Cancellation is not a failure: it leaves the canvas as it was.
+  const handleSetError = useCallback((error: string | Error | null, retry?: () => void) => {
+    const classified = error && (retry || error instanceof Error) ? toGenerationError(error) : error;
+    if (classified instanceof GenerationError && classified.kind === 'cancelled') return;
+    setError(classified);
+    setRetryGeneration(() => retry || null);
+  }, []);
+
+  const handleRetryGeneration = useCallback(() => {
+    const retry = retryGeneration;
+    setRetryGeneration(null);
+    retry?.();
+  }, [retryGeneration]);
+
+  const handleRetryJob = useCallback((id: string, forceRegenerate?: boolean) => {
+    const job = jobQueueRef.current?.retry(id, forceRegenerate);
+    if (!job) return;
+    setCanvasJobId(job.id);
+    setError(null);
+  }, []);
+
+  // Puts a job result in the canvas, offering its candidates when there is more than one
+  const showResult = useCallback((result: GenerationResult) => {
+    setGeneratedContent(toGeneratedContent(result));
+    setCandidates(result.candidates && result.candidates.length > 1 ? { urls: result.candidates, prompt: result.prompt || '' } : null);
+  }, []);
+
+  // The candidates belong to the canvas image; anything else replacing it drops them
   useEffect(() => {
-    localStorage.setItem('css_scenes', JSON.stringify(scenes));
-  }, [scenes]);
+    setCandidates(prev => prev && generatedContent && prev.urls.includes(generatedContent.url) ? prev : null);
+  }, [generatedContent]);
+
+  const handlePromoteCandidate = (url: string) => {
+    setGeneratedContent(prev => prev && { ...prev, url });
+  };
 
+  const handleDiscardCandidate = (url: string) => {
+    setCandidates(prev => {
+      const urls = prev ? prev.urls.filter(candidate => candidate !== url) : [];
+      return prev && urls.length > 1 ? { ...prev, urls } : null;
+    });
+  };
+
+  const handleSaveCandidateAsCharacter = (url: string, name: string) => {
+    handleSaveCharacter({ id: crypto.randomUUID(), name, imageUrl: url, prompt: candidates?.prompt || '' });
+  };
+
+  // The queue is created once and kept for the whole session. It is not torn down with the
+  // effect, so a StrictMode remount neither cancels nor duplicates the jobs resumed below.
   useEffect(() => {
-    localStorage.setItem('css_sound_library', JSON.stringify(soundLibrary));
-  }, [soundLibrary]);
+    if (jobQueueRef.current) return;
+    const queue = createJobQueue({
+      concurrency: loadSettings().jobConcurrency,
+      onChange: (next) => {
+        // Release results of removed jobs unless the canvas is still showing them
+        jobsRef.current.forEach(job => {
+          const url = job.result?.url;
+          if (url?.startsWith('blob:') && url !== generatedContentRef.current?.url && !next.some(j => j.id === job.id)) {
+            URL.revokeObjectURL(url);
+          }
+        });
+        jobsRef.current = next;
+        setJobs(next);
+        setJobNotice(notice => notice && next.some(job => job.id === notice.id) ? notice : null);
+      },
+      onSettled: (job) => {
+        if (job.id !== canvasJobIdRef.current) {
+          // Jobs resumed after a reload go straight to an idle canvas, otherwise they are announced
+          if (!job.resumed || job.status === 'cancelled') return;
+          if (job.status === 'succeeded' && job.result && !generatedContentRef.current && !canvasJobIdRef.current) {
+            showResult(job.result);
+          } else {
+            setJobNotice(job);
+          }
+          return;
+        }
+        canvasJobIdRef.current = null;
+        setCanvasJobId(null);
+        if (job.status === 'succeeded' && job.result) {
+          showResult(job.result);
+          setError(null);
+        } else if (job.status === 'failed' && job.error) {
+          handleSetError(job.error, () => handleRetryJob(job.id));
+        }
+      },
+    });
+    jobQueueRef.current = queue;
 
+    // Video generations interrupted by a reload keep running server-side; poll them again,
+    // except those another open tab is still polling
+    loadUnclaimedPendingVideos().then(pendingVideos => pendingVideos.forEach(pending => queue.enqueue({
+      tool: 'VIDEO_GENERATOR',
+      label: 'Video (resumed)',
+      inputs: [
+        { label: 'Image', value: pending.imageName },
+        { label: 'Prompt', value: pending.prompt },
+        { label: 'Aspect ratio', value: pending.aspectRatio },
+      ],
+      resumed: true,
+      run: async ({ signal, setProgress }) => ({ type: 'video', ...await resumeVideo(pending, setProgress, signal) }),
+    })));
+  }, [handleSetError, handleRetryJob, showResult]);
 
-  const handleSetLoading = useCallback((loading: boolean, message: string) => {
-    setIsLoading(loading);
-    setLoadingMessage(message);
+  const handleEnqueueGeneration = useCallback((spec: GenerationJobSpec) => {
+    const job = jobQueueRef.current?.enqueue(spec);
+    if (!job) return;
+    setCanvasJobId(job.id);
+    setError(null);
+    setRetryGeneration(null);
   }, []);
 
-  const handleGenerationComplete = useCallback((content: GeneratedContent) => {
-    setGeneratedContent(content);
+  const handleCancelGeneration = useCallback(() => {
+    if (canvasJobId) jobQueueRef.current?.cancel(canvasJobId);
+  }, [canvasJobId]);
+
+  // Shows a finished result, or follows an unfinished job's progress in the canvas
+  const handleOpenJob = (job: GenerationJob) => {
     setError(null);
+    setJobNotice(null);
+    if (job.status === 'succeeded' && job.result) {
+      setCanvasJobId(null);
+      showResult(job.result);
+    } else {
+      setCanvasJobId(job.id);
+    }
+  };
+
+  // Attaches a job's result to a saved scene, recording it as a new revision of that scene
+  const handleSaveJobToScene = async (job: GenerationJob, sceneId: string) => {
+    if (!job.result) return;
+    let savedContent: GeneratedContent;
+    try {
+      savedContent = await persistGeneratedMedia(toGeneratedContent(job.result));
+    } catch (e) {
+      console.error("Failed to persist generated media", e);
+      setError("Failed to save the generated media for this scene.");
+      return;
+    }
+    setScenes(prev => prev.map(scene => scene.id !== sceneId ? scene : {
+      ...scene,
+      generatedContent: savedContent,
+      revisions: appendRevision(scene.revisions, createSceneRevision({
+        characterIds: scene.characterIds,
+        prompt: scene.prompt,
+        soundEffect: scene.soundEffect,
+        rotations: scene.rotations,
+        positions: scene.positions,
+        aspectRatio: scene.aspectRatio,
+        generatedContent: savedContent,
+      })),
+    }));
+  };
+
+  const canvasJob = jobs.find(job => job.id === canvasJobId);
+  const isLoading = !!canvasJob && isJobActive(canvasJob);
+  const loadingMessage = !canvasJob ? '' : canvasJob.status === 'queued'
+    ? 'Waiting for a free slot...'
+    : canvasJob.progress || `Generating ${canvasJob.label.toLowerCase()}...`;
+
+  const syncHistoryState = useCallback(() => {
+    setHistoryState({
+      canUndo: undoStackRef.current.length > 0,
+      canRedo: redoStackRef.current.length > 0,
+    });
+  }, []);
+
+  /**
+   * Applies an edit and records it for undo. Consecutive commands with the same coalesce key
+   * (a drag, a rotation, typing in the prompt) merge into one step until the group is sealed
+   * or goes idle.
+   */
+  const executeCommand = useCallback((command: Omit<HistoryCommand, 'timestamp'>) => {
+    command.redo();
+    const now = Date.now();
+    const undoStack = undoStackRef.current;
+    const top = undoStack[undoStack.length - 1];
+    if (
+      top && command.coalesceKey && top.coalesceKey === command.coalesceKey &&
+      !top.sealed && now - top.timestamp < HISTORY_COALESCE_MS
+    ) {
+      undoStack[undoStack.length - 1] = { ...command, undo: top.undo, timestamp: now };
+    } else {
+      undoStack.push({ ...command, timestamp: now });
+      if (undoStack.length > MAX_HISTORY) undoStack.shift();
+    }
+    redoStackRef.current = [];
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  // Ends the current coalescing group, e.g. when a drag is released
+  const sealHistory = useCallback(() => {
+    const top = undoStackRef.current[undoStackRef.current.length - 1];
+    if (top) top.sealed = true;
   }, []);
 
+  const clearHistory = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  const handleUndo = useCallback(() => {
+    const command = undoStackRef.current.pop();
+    if (!command) return;
+    command.undo();
+    redoStackRef.current.push({ ...command, sealed: true });
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  const handleRedo = useCallback(() => {
+    const command = redoStackRef.current.pop();
+    if (!command) return;
+    command.redo();
+    undoStackRef.current.push({ ...command, sealed: true });
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // The history belongs to the scene builder; other tools must not change a composition out of sight
+      if (activeTool !== 'SCENE_BUILDER') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTool, handleUndo, handleRedo]);
+
+  const recordSelection = useCallback((label: string, next: string[]) => {
+    const previous = selectedCharacterIdsRef.current;
+    executeCommand({
+      label,
+      undo: () => setSelectedCharacterIds(previous.filter(id => !deletedCharacterIdsRef.current.has(id))),
+      redo: () => setSelectedCharacterIds(next.filter(id => !deletedCharacterIdsRef.current.has(id))),
+    });
+  }, [executeCommand]);
+
   const handleCharacterSelect = (id: string) => {
-    setSelectedCharacterIds(prev =>
-      prev.includes(id) 
-        ? prev.filter(charId => charId !== id) 
+    const prev = selectedCharacterIdsRef.current;
+    recordSelection(
+      prev.includes(id) ? 'Remove character' : 'Add character',
+      prev.includes(id)
+        ? prev.filter(charId => charId !== id)
         : [...prev, id] // Add new selections to the end (top layer)
     );
   };
 
   const handleCharacterReorder = useCallback((reorderedCharacters: Character[]) => {
     const newIds = reorderedCharacters.map(c => c.id);
-    setSelectedCharacterIds(newIds);
-  }, []);
+    recordSelection('Reorder layers', newIds);
+  }, [recordSelection]);
 
+  const handleScenePromptChange = useCallback((prompt: string) => {
+    const previous = scenePromptRef.current;
+    executeCommand({
+      label: 'Edit prompt',
+      coalesceKey: 'prompt',
+      undo: () => setScenePrompt(previous),
+      redo: () => setScenePrompt(prompt),
+    });
+  }, [executeCommand]);
+
+  const handleSceneAspectRatioChange = useCallback((aspectRatio: ImageAspectRatio) => {
+    const previous = sceneAspectRatioRef.current;
+    if (aspectRatio === previous) return;
+    executeCommand({
+      label: 'Change aspect ratio',
+      undo: () => setSceneAspectRatio(previous),
+      redo: () => setSceneAspectRatio(aspectRatio),
+    });
+  }, [executeCommand]);
+
+  const handlePositionChange = useCallback((id: string, position: { x: number; y: number }) => {
+    const previous = characterPositionsRef.current[id];
+    // The canvas assigns a starting position to newly added characters; that is not a user edit.
+    if (!previous) {
+      setCharacterPositions(prev => ({ ...prev, [id]: position }));
+      return;
+    }
+    executeCommand({
+      label: 'Move character',
+      coalesceKey: `position:${id}`,
+      undo: () => setCharacterPositions(prev => ({ ...prev, [id]: previous })),
+      redo: () => setCharacterPositions(prev => ({ ...prev, [id]: position })),
+    });
+  }, [executeCommand]);
+
+  const handleRotationChange = useCallback((id: string, rotation: number) => {
+    const previous = characterRotationsRef.current[id];
+    executeCommand({
+      label: 'Rotate character',
+      coalesceKey: `rotation:${id}`,
+      undo: () => setCharacterRotations(prev => {
+        if (previous !== undefined) return { ...prev, [id]: previous };
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      }),
+      redo: () => setCharacterRotations(prev => ({ ...prev, [id]: rotation })),
+    });
+  }, [executeCommand]);
+
+  // Replaces the character when it is already in the library, e.g. after editing its reference views
   const handleSaveCharacter = (character: Character) => {
-    setCharacters(prev => [...prev, character]);
+    setCharacters(prev => prev.some(c => c.id === character.id)
+      ? prev.map(c => c.id === character.id ? character : c)
+      : [...prev, character]);
+    setIsCreatorModalOpen(false);
+    setEditingCharacter(undefined);
+  };
+
+  const handleEditCharacter = (id: string) => {
+    setEditingCharacter(characters.find(c => c.id === id));
+    setIsCreatorModalOpen(true);
+  };
+
+  const handleCloseCreator = () => {
     setIsCreatorModalOpen(false);
+    setEditingCharacter(undefined);
   };
   
-  const handleImportCharacter = (character: Character) => {
-    // Avoid duplicates by ID
-    if (!characters.some(c => c.id === character.id)) {
-        setCharacters(prev => [...prev, character]);
+  // Imports only go straight into the library when every character is new; anything that
+  // matches an existing id goes through the review dialog first.
+  const handleImportLibrary = (newCharacters: Character[]) => {
+    const items = classifyCharacterImport(newCharacters, characters);
+    if (items.every(item => item.status === 'new')) {
+        setCharacters(prev => applyCharacterImport(prev, items));
     } else {
-        setCharacters(prev => prev.map(c => c.id === character.id ? character : c));
+        setPendingImport(items);
     }
   };
 
-  const handleImportLibrary = (newCharacters: Character[]) => {
-     setCharacters(prev => {
-         const combined = [...prev];
-         newCharacters.forEach(newChar => {
-             const existingIndex = combined.findIndex(c => c.id === newChar.id);
-             if (existingIndex >= 0) {
-                 combined[existingIndex] = newChar; // Update existing
-             } else {
-                 combined.push(newChar); // Add new
-             }
-         });
-         return combined;
-     });
+  const handleImportCharacter = (character: Character) => {
+    handleImportLibrary([character]);
+  };
+
+  const handleConfirmImport = (items: CharacterImportItem[]) => {
+    setCharacters(prev => applyCharacterImport(prev, items));
+    setPendingImport(null);
   };
 
   const handleDeleteCharacter = (id: string) => {
+    deletedCharacterIdsRef.current.add(id);
     setCharacters(prev => prev.filter(c => c.id !== id));
     setSelectedCharacterIds(prev => prev.filter(cid => cid !== id));
   };
 
-  const handleSaveScene = (name: string) => {
+  const handleSaveScene = async (name: string) => {
     const existingScene = scenes.find(s => s.id === currentSceneId);
+    // If we are working on an existing scene and the name hasn't changed, we update the existing
+    // record. If the name is different, it implies a "Save As" intent.
+    const sceneId = existingScene && existingScene.name === name ? existingScene.id : crypto.randomUUID();
 
-    // If we are working on an existing scene and the name hasn't changed (or user wants to update it),
-    // we update the existing record. If the name is different, it implies a "Save As" intent.
-    if (existingScene && existingScene.name === name) {
-        const updatedScene: Scene = {
-            ...existingScene,
-            characterIds: selectedCharacterIds,
-            prompt: scenePrompt,
-            soundEffect: sceneSoundEffect,
-            rotations: characterRotations,
-            positions: characterPositions,
-            generatedContent: generatedContent || undefined,
-        };
-        setScenes(prev => prev.map(s => s.id === currentSceneId ? updatedScene : s));
-    } else {
-        // Create a new scene
-        const newScene: Scene = {
-            id: crypto.randomUUID(),
-            name,
-            characterIds: selectedCharacterIds,
-            prompt: scenePrompt,
-            createdAt: Date.now(),
-            soundEffect: sceneSoundEffect,
-            rotations: characterRotations,
-            positions: characterPositions,
-            generatedContent: generatedContent || undefined,
-        };
-        setScenes(prev => [newScene, ...prev]);
-        setCurrentSceneId(newScene.id);
+    // Video and audio results are object URLs; persist their blobs so the scene survives a reload.
+    let savedContent: GeneratedContent | undefined;
+    if (generatedContent) {
+        try {
+            savedContent = await persistGeneratedMedia(generatedContent);
+        } catch (e) {
+            console.error("Failed to persist generated media", e);
+            setError("Failed to save the generated media for this scene.");
+            return;
+        }
+        setGeneratedContent(prev => prev?.url === savedContent?.url ? savedContent! : prev);
     }
+
+    const composition = {
+        characterIds: selectedCharacterIds,
+        prompt: scenePrompt,
+        soundEffect: sceneSoundEffect,
+        rotations: characterRotations,
+        positions: characterPositions,
+        aspectRatio: sceneAspectRatio,
+        generatedContent: savedContent,
+    };
+    // Every save is also recorded as a revision so earlier compositions can be restored.
+    const revision = createSceneRevision(composition);
+
+    // Built from the scenes as they are now: another tab may have saved or deleted this scene
+    // while the media above was being persisted, and its revisions must not be lost.
+    setScenes(prev => {
+        const current = prev.find(s => s.id === sceneId);
+        if (current) {
+            return prev.map(s => s === current ? { ...current, ...composition, revisions: appendRevision(current.revisions, revision) } : s);
+        }
+        // A new scene, or the open one was deleted in the meantime and is saved again
+        const newScene: Scene = { id: sceneId, name, createdAt: Date.now(), ...composition, revisions: [revision] };
+        return [newScene, ...prev];
+    });
+    setCurrentSceneId(sceneId);
+    setSceneConflict(null);
   };
 
-  const handleLoadScene = (scene: Scene) => {
+  useEffect(() => {
+    if (!sceneToAdopt) return;
+    setSceneToAdopt(null);
+    // Only if the scene is still the one open; the user may have moved on in the meantime
+    if (currentSceneIdRef.current === sceneToAdopt.id) loadComposition(sceneToAdopt, sceneToAdopt.id, false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sceneToAdopt]);
+
+  const handleLoadConflictingScene = () => {
+    const theirs = scenes.find(s => s.id === sceneConflict?.sceneId);
+    if (theirs) handleLoadScene(theirs);
+  };
+
+  // Puts a saved composition into the builder. `sceneId` is the scene later saves update, if any.
+  // `activate` switches to the scene builder; a scene updated from another tab loads in place.
+  const loadComposition = async (scene: SceneComposition, sceneId: string | null, activate = true) => {
+    const requestId = ++loadSceneRequestRef.current;
     setSelectedCharacterIds(scene.characterIds);
     setScenePrompt(scene.prompt);
     setSceneSoundEffect(scene.soundEffect);
     setCharacterRotations(scene.rotations || {});
     setCharacterPositions(scene.positions || {});
-    
-    // Load generated content if available, otherwise clear it
-    setGeneratedContent(scene.generatedContent || null);
+    setSceneAspectRatio(scene.aspectRatio || '1:1');
     
     // Set the current scene ID so we can update it later
-    setCurrentSceneId(scene.id);
+    setCurrentSceneId(sceneId);
+    setSceneConflict(null);
+    clearHistory();
     
-    setActiveTool('SCENE_BUILDER');
+    if (activate) setActiveTool('SCENE_BUILDER');
+
+    // Load generated content if available, otherwise clear it.
+    // Persisted video/audio gets a fresh object URL since the one it was saved with is gone.
+    setGeneratedContent(scene.generatedContent?.mediaId ? null : scene.generatedContent || null);
+    if (scene.generatedContent?.mediaId) {
+        try {
+            const restored = await restoreGeneratedMedia(scene.generatedContent);
+            if (requestId !== loadSceneRequestRef.current) {
+                if (restored) URL.revokeObjectURL(restored.url);
+                return;
+            }
+            setGeneratedContent(restored);
+        } catch (e) {
+            console.error("Failed to restore generated media", e);
+            setError("Failed to load the generated media for this scene.");
+        }
+    }
+  };
+
+  const handleLoadScene = (scene: Scene) => loadComposition(scene, scene.id);
+
+  const handleRestoreAutosave = (slot: AutosaveSlot) => {
+    // The scene the slot was editing may have been deleted since
+    loadComposition(slot, scenes.some(s => s.id === slot.currentSceneId) ? slot.currentSceneId : null);
+    setAutosaveSlots(null);
+    setIsAutosaveReady(true);
+  };
+
+  const handleCloseAutosaves = () => {
+    setAutosaveSlots(null);
+    setIsAutosaveReady(true);
+  };
+
+  const handleOpenAutosaves = async () => {
+    try {
+      const slots = await loadAutosaves();
+      if (slots.length === 0) {
+        alert("No autosaved work yet.");
+        return;
+      }
+      setAutosaveSlots(slots);
+    } catch (e) {
+      console.error("Failed to load autosaves", e);
+      setError("Failed to load autosaved work.");
+    }
+  };
+
+  const handleCollectGarbage = async (plan: CleanupPlan) => {
+    if (plan.assetIds.length > 0) {
+        await deleteAssets(plan.assetIds);
+    }
+    if (plan.soundIds.length > 0) {
+        setSoundLibrary(prev => prev.filter(s => !plan.soundIds.includes(s.id)));
+    }
+    const danglingByScene = new Map(findDanglingReferences(scenes, characters).map(ref => [ref.scene.id, ref.missingIds]));
+    if (plan.sceneIds.length > 0) {
+        setScenes(prev => prev.map(s => {
+            const missingIds = danglingByScene.get(s.id);
+            return plan.sceneIds.includes(s.id) && missingIds ? removeCharacterReferences(s, missingIds) : s;
+        }));
+    }
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+    jobQueueRef.current?.setConcurrency(next.jobConcurrency);
+  };
+
+  const handleAutosaveIntervalChange = (interval: number) => {
+    setAutosaveInterval(interval);
+    saveAutosaveInterval(interval);
   };
   
+  // Loads a past revision into the builder; it becomes the scene's latest revision once saved again.
+  const handleRestoreRevision = (scene: Scene, revision: SceneRevision) => {
+    handleLoadScene(sceneAtRevision(scene, revision));
+  };
+
   const handleImportScene = (scene: Scene) => {
     if (!scenes.some(s => s.id === scene.id)) {
         setScenes(prev => [scene, ...prev]);
@@ -237,7 +885,18 @@ function App() {
     }
   };
 
-  const handleExportScene = () => {
+  const handleImportSceneBundle = async (bundle: SceneBundle) => {
+    const { scene, newCharacters, newSoundEffect } = await importSceneBundle(bundle, { characters, scenes, soundLibrary });
+    if (newCharacters.length > 0) {
+        setCharacters(prev => [...prev, ...newCharacters]);
+    }
+    if (newSoundEffect) {
+        setSoundLibrary(prev => [...prev, newSoundEffect]);
+    }
+    setScenes(prev => [scene, ...prev]);
+  };
+
+  const handleExportScene = async () => {
     const exportName = currentSceneName || "Untitled Scene";
     const sceneData: Scene = {
       id: currentSceneId || crypto.randomUUID(),
@@ -248,10 +907,17 @@ function App() {
       soundEffect: sceneSoundEffect,
       rotations: characterRotations,
       positions: characterPositions,
+      aspectRatio: sceneAspectRatio,
       generatedContent: generatedContent || undefined
     };
     
-    downloadJson(sceneData, `scene-${exportName.replace(/\s+/g, '_')}.json`);
+    try {
+        const bundle = await createSceneBundle(sceneData, characters);
+        downloadJson(wrapPayload(PAYLOAD_FORMATS.SCENE_BUNDLE, bundle), `scene-${exportName.replace(/\s+/g, '_')}.json`);
+    } catch (e) {
+        console.error("Failed to export scene", e);
+        setError("Failed to export scene.");
+    }
   };
 
   const handleDeleteScene = (id: string) => {
@@ -267,9 +933,12 @@ function App() {
     setSceneSoundEffect(undefined);
     setCharacterRotations({});
     setCharacterPositions({});
+    setSceneAspectRatio('1:1');
     setCurrentSceneId(null);
+    setSceneConflict(null);
     setGeneratedContent(null);
     setError(null);
+    clearHistory();
   };
   
   // The order of selectedCharacterIds determines the layer order (index 0 is the back).
@@ -282,7 +951,25 @@ function App() {
 
   return (
     <div className="h-screen w-screen flex flex-col bg-gray-900">
-      <Header activeTool={activeTool} setActiveTool={setActiveTool} />
+      <Header
+        activeTool={activeTool}
+        setActiveTool={setActiveTool}
+        autosaveInterval={autosaveInterval}
+        onAutosaveIntervalChange={handleAutosaveIntervalChange}
+        onOpenAutosaves={handleOpenAutosaves}
+        onOpenStorage={() => setIsStorageOpen(true)}
+        onOpenUsage={() => setIsUsageOpen(true)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        activeJobCount={jobs.filter(isJobActive).length}
+        onToggleJobs={() => setIsJobsOpen(open => !open)}
+      />
+      {sceneConflict && (
+        <SceneConflictBanner
+          conflict={sceneConflict}
+          onLoadTheirs={handleLoadConflictingScene}
+          onKeepMine={() => setSceneConflict(null)}
+        />
+      )}
       <div className="flex flex-grow overflow-hidden">
         <Sidebar
           characters={characters}
@@ -292,9 +979,12 @@ function App() {
           onImportCharacter={handleImportCharacter}
           onImportLibrary={handleImportLibrary}
           onDeleteCharacter={handleDeleteCharacter}
+          onEditCharacter={handleEditCharacter}
           scenes={scenes}
           onSceneSelect={handleLoadScene}
+          onRestoreRevision={handleRestoreRevision}
           onImportScene={handleImportScene}
+          onImportSceneBundle={handleImportSceneBundle}
           onSceneDelete={handleDeleteScene}
         />
         <Canvas
@@ -302,25 +992,37 @@ function App() {
           loadingMessage={loadingMessage}
           generatedContent={generatedContent}
           error={error}
+          onRetry={retryGeneration && error instanceof GenerationError ? handleRetryGeneration : undefined}
+          onCancel={handleCancelGeneration}
           selectedCharacters={selectedCharacters}
+          characters={characters}
+          soundLibrary={soundLibrary}
           onCharacterReorder={handleCharacterReorder}
           characterRotations={characterRotations}
-          onRotationChange={(id, rot) => setCharacterRotations(prev => ({ ...prev, [id]: rot }))}
+          onRotationChange={handleRotationChange}
           characterPositions={characterPositions}
-          onPositionChange={(id, pos) => setCharacterPositions(prev => ({ ...prev, [id]: pos }))}
+          onPositionChange={handlePositionChange}
+          onTransformEnd={sealHistory}
+          candidates={candidates?.urls}
+          onPromoteCandidate={handlePromoteCandidate}
+          onDiscardCandidate={handleDiscardCandidate}
+          onDiscardOtherCandidates={() => setCandidates(null)}
+          onSaveCandidateAsCharacter={handleSaveCandidateAsCharacter}
         />
         <ControlsPanel
           activeTool={activeTool}
           selectedCharacters={selectedCharacters}
-          setLoading={handleSetLoading}
-          setError={setError}
-          onGenerationComplete={handleGenerationComplete}
+          characters={characters}
+          enqueueGeneration={handleEnqueueGeneration}
+          setError={handleSetError}
           scenePrompt={scenePrompt}
-          setScenePrompt={setScenePrompt}
+          setScenePrompt={handleScenePromptChange}
           onSaveScene={handleSaveScene}
           currentSceneName={currentSceneName}
           sceneSoundEffect={sceneSoundEffect}
           setSceneSoundEffect={setSceneSoundEffect}
+          sceneAspectRatio={sceneAspectRatio}
+          setSceneAspectRatio={handleSceneAspectRatioChange}
           soundLibrary={soundLibrary}
           setSoundLibrary={setSoundLibrary}
           characterRotations={characterRotations}
@@ -328,14 +1030,82 @@ function App() {
           scenes={scenes}
           onLoadScene={handleLoadScene}
           onExportScene={handleExportScene}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          canUndo={historyState.canUndo}
+          canRedo={historyState.canRedo}
         />
       </div>
       {isCreatorModalOpen && (
         <CharacterCreatorModal 
-          onClose={() => setIsCreatorModalOpen(false)}
+          character={editingCharacter}
+          onClose={handleCloseCreator}
           onSave={handleSaveCharacter}
         />
       )}
+      {pendingImport && (
+        <ImportReviewModal
+          items={pendingImport}
+          onClose={() => setPendingImport(null)}
+          onConfirm={handleConfirmImport}
+        />
+      )}
+      {isJobsOpen && (
+        <JobsPanel
+          jobs={jobs}
+          scenes={scenes}
+          canvasJobId={canvasJobId}
+          onOpen={handleOpenJob}
+          onCancel={(id) => jobQueueRef.current?.cancel(id)}
+          onRetry={handleRetryJob}
+          onRegenerate={(id) => handleRetryJob(id, true)}
+          onRemove={(id) => jobQueueRef.current?.remove(id)}
+          onSaveToScene={handleSaveJobToScene}
+          onClearFinished={() => jobQueueRef.current?.clearFinished()}
+          onClose={() => setIsJobsOpen(false)}
+        />
+      )}
+      {jobNotice && (
+        <JobNotice
+          job={jobNotice}
+          onOpen={() => handleOpenJob(jobNotice)}
+          onShowJobs={() => {
+            setIsJobsOpen(true);
+            setJobNotice(null);
+          }}
+          onDismiss={() => setJobNotice(null)}
+        />
+      )}
+      {isSettingsOpen && (
+        <SettingsModal
+          settings={settings}
+          onChange={handleSettingsChange}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+      {isUsageOpen && (
+        <UsageModal settings={settings} onClose={() => setIsUsageOpen(false)} />
+      )}
+      {isStorageOpen && (
+        <StorageDashboardModal
+          characters={characters}
+          scenes={scenes}
+          soundLibrary={soundLibrary}
+          inUseAssetIds={[generatedContent, ...jobs.map(job => job.result)].flatMap(content => content?.mediaId ? [content.mediaId] : [])}
+          inUseSoundIds={sceneSoundEffect ? [sceneSoundEffect.id] : []}
+          onCollect={handleCollectGarbage}
+          onClose={() => setIsStorageOpen(false)}
+        />
+      )}
+      {autosaveSlots && (
+        <AutosaveRecoveryModal
+          slots={autosaveSlots}
+          characters={characters}
+          scenes={scenes}
+          onRestore={handleRestoreAutosave}
+          onClose={handleCloseAutosaves}
+        />
+      )}
     </div>
   );
 }
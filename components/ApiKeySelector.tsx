@@ -1,6 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { Button } from './common/Button';
+import { loadSettings } from '../utils/settingsUtils';
+import { hasApiKey } from '../services/geminiService';
 
 interface ApiKeySelectorProps {
   onKeySelected: () => void;
@@ -9,20 +11,25 @@ interface ApiKeySelectorProps {
 export const ApiKeySelector: React.FC<ApiKeySelectorProps> = ({ onKeySelected }) => {
   const [keyNeeded, setKeyNeeded] = useState(false);
 
-  useEffect(() => {
-    const checkKey = async () => {
-      if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
-        if (!hasKey) {
-          setKeyNeeded(true);
-        } else {
-          onKeySelected();
-        }
+  const checkKey = async () => {
+    if (loadSettings().provider === 'mock' || loadSettings().apiKey.trim()) {
+      // The offline provider never calls the API, and a key entered in settings is used as is
+      onKeySelected();
+    } else if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
+      const hasKey = await window.aistudio.hasSelectedApiKey();
+      if (!hasKey) {
+        setKeyNeeded(true);
       } else {
-         // If in an environment without aistudio, assume key is set via env
-         onKeySelected();
+        onKeySelected();
       }
-    };
+    } else if (hasApiKey()) {
+      onKeySelected();
+    } else {
+      setKeyNeeded(true);
+    }
+  };
+
+  useEffect(() => {
     checkKey();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -33,9 +40,14 @@ export const ApiKeySelector: React.FC<ApiKeySelectorProps> = ({ onKeySelected })
         // Assume success and proceed. Error handling in the service will catch invalid keys.
         setKeyNeeded(false);
         onKeySelected();
+    } else {
+        // Outside AI Studio the key is entered in settings; check whether that has happened
+        checkKey();
     }
   };
 
+  const canSelectInAiStudio = !!window.aistudio && typeof window.aistudio.openSelectKey === 'function';
+
   if (!keyNeeded) {
     return null;
   }
@@ -44,9 +56,10 @@ export const ApiKeySelector: React.FC<ApiKeySelectorProps> = ({ onKeySelected })
     <div className="bg-gray-800 p-6 rounded-lg border border-indigo-500/30 text-center">
       <h3 className="text-lg font-semibold text-white mb-2">API Key Required for Video Generation</h3>
       <p className="text-gray-400 mb-4">
-        Veo video generation requires an API key with billing enabled. Please select your key to proceed.
+        Veo video generation requires an API key with billing enabled.{' '}
+        {canSelectInAiStudio ? 'Please select your key to proceed.' : 'Enter your key in Settings (the gear icon in the header), then continue.'}
       </p>
-      <Button onClick={handleSelectKey}>Select API Key</Button>
+      <Button onClick={handleSelectKey}>{canSelectInAiStudio ? 'Select API Key' : 'Continue'}</Button>
       <a 
         href="https://ai.google.dev/gemini-api/docs/billing" 
         target="_blank" 
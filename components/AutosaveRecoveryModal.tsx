@@ -0,0 +1,72 @@
+import React from 'react';
+import { AutosaveSlot, Character, Scene } from '../types';
+import { Button } from './common/Button';
+import { CloseIcon } from '../constants';
+
+interface AutosaveRecoveryModalProps {
+  slots: AutosaveSlot[];
+  characters: Character[];
+  scenes: Scene[];
+  onRestore: (slot: AutosaveSlot) => void;
+  onClose: () => void;
+}
+
+const SlotPreview: React.FC<{ slot: AutosaveSlot }> = ({ slot }) => {
+  const content = slot.generatedContent;
+  if (content?.type === 'image' && content.url) {
+    return <img src={content.url} alt="Autosaved output" className="w-16 h-16 rounded object-cover flex-shrink-0" />;
+  }
+  return (
+    <div className="w-16 h-16 rounded bg-gray-800 flex items-center justify-center text-[10px] uppercase text-gray-500 flex-shrink-0">
+      {content ? content.type : 'No output'}
+    </div>
+  );
+};
+
+export const AutosaveRecoveryModal: React.FC<AutosaveRecoveryModalProps> = ({ slots, characters, scenes, onRestore, onClose }) => {
+  const characterNames = (slot: AutosaveSlot) =>
+    slot.characterIds.map(id => characters.find(c => c.id === id)?.name || 'Deleted character').join(', ') || 'No characters';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-2xl p-6 relative flex flex-col max-h-[90vh]">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+
+        <h3 className="text-lg font-semibold mb-1">Recover Autosaved Work</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          The Scene Builder was autosaved during a previous session. Restore one of these snapshots or start fresh.
+        </p>
+
+        <div className="flex-grow overflow-y-auto pr-2 space-y-2">
+          {slots.map((slot, index) => {
+            const sceneName = scenes.find(s => s.id === slot.currentSceneId)?.name;
+            return (
+              <div key={slot.id} className="flex items-center gap-3 bg-gray-800/60 border border-gray-700 rounded-lg p-2">
+                <SlotPreview slot={slot} />
+                <div className="min-w-0 flex-grow">
+                  <p className="text-sm text-gray-200">
+                    {new Date(slot.savedAt).toLocaleString()}
+                    {index === 0 && <span className="text-indigo-400 text-xs"> · latest</span>}
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {sceneName ? `Scene "${sceneName}"` : 'Unsaved scene'} · {characterNames(slot)}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate" title={slot.prompt}>{slot.prompt}</p>
+                </div>
+                <Button onClick={() => onRestore(slot)} variant="secondary" className="px-3 py-1 text-xs">
+                  Restore
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <Button onClick={onClose}>Start Fresh</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,158 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GeneratedContent, Character } from '../types';
+import { GeneratedContent, Character, GenerationProvenance, SoundEffect } from '../types';
 import { Loader } from './common/Loader';
-import { SceneIcon, MicrophoneIcon, DownloadIcon, CloseIcon, SpeakerIcon, SpeakerXMarkIcon } from '../constants';
+import { SceneIcon, MicrophoneIcon, DownloadIcon, CloseIcon, SpeakerIcon, SpeakerXMarkIcon, TrashIcon, InformationCircleIcon } from '../constants';
 import { Button } from './common/Button';
+import { GenerationError, GenerationErrorKind, ResponseDetails } from '../services/generationErrors';
+import { PROVIDER_OPTIONS } from '../services/generationService';
+import { addPngTextChunks } from '../utils/pngUtils';
 
 interface CanvasProps {
   isLoading: boolean;
   loadingMessage: string;
   generatedContent: GeneratedContent | null;
-  error: string | null;
+  error: string | GenerationError | null;
+  // Repeats the request that failed, when there is one
+  onRetry?: () => void;
+  // Stops the running generation, when it can be stopped
+  onCancel?: () => void;
   selectedCharacters: Character[];
+  // The libraries, to name the characters and sound in a result's provenance
+  characters: Character[];
+  soundLibrary: SoundEffect[];
   onCharacterReorder: (reorderedCharacters: Character[]) => void;
   characterRotations: Record<string, number>;
   onRotationChange: (id: string, rotation: number) => void;
   characterPositions: Record<string, { x: number, y: number }>;
   onPositionChange: (id: string, position: { x: number, y: number }) => void;
+  onTransformEnd: () => void;
+  // Alternatives from the last image generation, shown as a grid to pick from; includes the current image
+  candidates?: string[];
+  onPromoteCandidate?: (url: string) => void;
+  onDiscardCandidate?: (url: string) => void;
+  onDiscardOtherCandidates?: () => void;
+  onSaveCandidateAsCharacter?: (url: string, name: string) => void;
 }
 
+const ERROR_GUIDANCE: Record<GenerationErrorKind, { title: string; guidance: string }> = {
+  quota: {
+    title: 'Rate Limit Reached',
+    guidance: 'Too many requests were made in a short time, or the daily quota is used up. Wait a minute and try again, or check the quota and billing for your API key.',
+  },
+  safety: {
+    title: 'Blocked by Safety Filters',
+    guidance: 'The prompt or the result was flagged. Rephrase the prompt to avoid violent, explicit or real-person content, or try different reference images.',
+  },
+  'invalid-key': {
+    title: 'API Key Problem',
+    guidance: 'The API key is missing, invalid, or lacks access to this model. Select a different key (video generation needs a key with billing enabled) and try again.',
+  },
+  network: {
+    title: 'Connection Problem',
+    guidance: 'The service could not be reached or is temporarily unavailable. Check your connection and try again shortly.',
+  },
+  'empty-response': {
+    title: 'No Output Returned',
+    guidance: 'The model responded without a result. This is usually transient; try again, or make the prompt more specific.',
+  },
+  'usage-limit': {
+    title: 'Spending Limit Reached',
+    guidance: 'The estimated cost of this generation would go over the hard limit set in Settings. Check the usage view, then raise the limit or wait for the next period.',
+  },
+  cancelled: {
+    title: 'Generation Cancelled',
+    guidance: '',
+  },
+  unknown: {
+    title: 'An Error Occurred',
+    guidance: '',
+  },
+};
+
+// Matched against harm categories by substring, so the image-specific categories are covered too
+const CATEGORY_SUGGESTIONS: [string, string][] = [
+  ['SEXUALLY_EXPLICIT', 'Describe clothing and poses plainly and leave out words about bodies, undressing or intimacy.'],
+  ['DANGEROUS', 'Leave out weapons, drugs and injuries, or imply the action instead of showing harm.'],
+  ['HARASSMENT', 'Avoid insults and demeaning descriptions of a character or a person.'],
+  ['HATE', 'Remove references to groups of people paired with negative traits.'],
+  ['CIVIC', 'Leave out elections, political parties and public officials.'],
+];
+
+const RECITATION_SUGGESTION = 'The result was too close to existing material. Describe original characters and settings instead of named franchises, artists or brands.';
+const PROHIBITED_SUGGESTION = 'The prompt touches content that is never generated. Remove real people\'s names and anything explicit.';
+
+const REASON_SUGGESTIONS: Record<string, string> = {
+  RECITATION: RECITATION_SUGGESTION,
+  IMAGE_RECITATION: RECITATION_SUGGESTION,
+  PROHIBITED_CONTENT: PROHIBITED_SUGGESTION,
+  IMAGE_PROHIBITED_CONTENT: PROHIBITED_SUGGESTION,
+  BLOCKLIST: 'The prompt contains a blocked term. Rephrase it with different words.',
+  SPII: 'Remove personal details such as addresses, phone numbers or ID numbers.',
+  NO_IMAGE: 'Start the prompt with an instruction like "Create an image of..." and describe what should be visible.',
+  MAX_TOKENS: 'The response ran out of room. Shorten the prompt or split it into smaller edits.',
+  LANGUAGE: 'Write the prompt in a supported language such as English.',
+};
+
+// MIME subtypes whose usual file extension differs from the subtype itself
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  mpeg: 'mp3',
+  'x-wav': 'wav',
+  quicktime: 'mov',
+};
+
+const humanize = (value: string) => value.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+const getRewordingSuggestions = (details: ResponseDetails): string[] => {
+  const suggestions = [
+    ...(details.flaggedCategories || []).flatMap(category => CATEGORY_SUGGESTIONS.filter(([key]) => category.includes(key)).map(([, suggestion]) => suggestion)),
+    ...[details.blockReason, details.finishReason].map(reason => reason && REASON_SUGGESTIONS[reason]),
+  ];
+  if (details.text && !details.finishReason?.includes('SAFETY')) {
+    suggestions.push('The model answered in words instead of an image. Read its reply above; it often says what to change.');
+  }
+  return Array.from(new Set(suggestions.filter((suggestion): suggestion is string => !!suggestion)));
+};
+
+// Why the model produced nothing, as reported in its response
+const ResponseDetailsView: React.FC<{ details: ResponseDetails }> = ({ details }) => {
+  const suggestions = getRewordingSuggestions(details);
+  const reasons = [
+    details.blockReason && `Prompt blocked: ${humanize(details.blockReason)}`,
+    details.finishReason && details.finishReason !== 'STOP' && `Finish reason: ${humanize(details.finishReason)}`,
+  ].filter((reason): reason is string => !!reason);
+
+  return (
+    <div className="text-left text-sm mt-4 space-y-3">
+      {(reasons.length > 0 || details.flaggedCategories) && (
+        <div className="flex flex-wrap gap-1.5">
+          {reasons.map(reason => (
+            <span key={reason} className="text-xs px-2 py-0.5 rounded bg-red-950/70 text-red-200">{reason}</span>
+          ))}
+          {details.flaggedCategories?.map(category => (
+            <span key={category} className="text-xs px-2 py-0.5 rounded bg-amber-900/60 text-amber-200">Flagged: {humanize(category)}</span>
+          ))}
+        </div>
+      )}
+      {details.finishMessage && <p className="text-red-200/90">{details.finishMessage}</p>}
+      {details.text && (
+        <div>
+          <p className="text-xs font-semibold text-red-200/80 mb-1">The model replied</p>
+          <blockquote className="text-gray-200 bg-gray-900/60 border-l-2 border-red-400 rounded-r px-3 py-2 max-h-40 overflow-y-auto whitespace-pre-wrap">{details.text}</blockquote>
+        </div>
+      )}
+      {suggestions.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-red-200/80 mb-1">Try rewording</p>
+          <ul className="list-disc pl-5 space-y-1 text-red-100/90">
+            {suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const RotateLeftIcon = (props: React.SVGProps<SVGSVGElement>) => (
   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M9 15 3 9m0 0 6-6M3 9h12a6 6 0 0 1 0 12h-3" />
@@ -30,6 +165,64 @@ const RotateRightIcon = (props: React.SVGProps<SVGSVGElement>) => (
   </svg>
 );
 
+const CandidateCard: React.FC<{
+  url: string;
+  index: number;
+  isCurrent: boolean;
+  onPromote: () => void;
+  onDiscard: () => void;
+  onSaveAsCharacter: (name: string) => void;
+}> = ({ url, index, isCurrent, onPromote, onDiscard, onSaveAsCharacter }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSaveAsCharacter(name.trim());
+    setIsNaming(false);
+    setName('');
+  };
+
+  return (
+    <div className={`w-40 bg-gray-800/80 rounded-lg p-2 border-2 ${isCurrent ? 'border-indigo-500' : 'border-transparent'}`}>
+      <button onClick={onPromote} className="block w-full" title={isCurrent ? 'Shown above' : 'Use this candidate'}>
+        <img src={url} alt={`Candidate ${index + 1}`} className="w-full h-28 object-cover rounded-md" />
+      </button>
+      {isNaming ? (
+        <div className="mt-2 flex flex-col gap-1">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Character name"
+            autoFocus
+            className="w-full bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          />
+          <div className="flex gap-1">
+            <Button onClick={handleSave} disabled={!name.trim()} className="flex-1 px-2 py-1 text-xs">Save</Button>
+            <Button onClick={() => setIsNaming(false)} variant="secondary" className="flex-1 px-2 py-1 text-xs">Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 flex flex-col gap-1">
+          <Button onClick={onPromote} disabled={isCurrent} className="w-full px-2 py-1 text-xs">
+            {isCurrent ? 'Selected' : 'Use This'}
+          </Button>
+          <div className="flex gap-1">
+            <Button onClick={() => setIsNaming(true)} variant="secondary" className="flex-1 px-2 py-1 text-xs" title="Add this image to the character library">
+              Save as Character
+            </Button>
+            <Button onClick={onDiscard} variant="secondary" disabled={isCurrent} className="px-2 py-1 text-xs" title="Discard this candidate">
+              <TrashIcon className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const LayerManager: React.FC<{ 
   characters: Character[]; 
   onReorder: (reordered: Character[]) => void;
@@ -99,10 +292,71 @@ const LayerManager: React.FC<{
 
 interface ImageDownloadModalProps {
   imageUrl: string;
+  // Embedded as text chunks in PNG downloads
+  provenance?: GenerationProvenance;
   onClose: () => void;
 }
 
-const ImageDownloadModal: React.FC<ImageDownloadModalProps> = ({ imageUrl, onClose }) => {
+const ProvenanceRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-3 text-xs">
+    <span className="w-24 flex-shrink-0 text-gray-500">{label}</span>
+    <span className="text-gray-200 min-w-0 break-words">{children}</span>
+  </div>
+);
+
+const ProvenancePanel: React.FC<{
+  provenance: GenerationProvenance;
+  characters: Character[];
+  soundLibrary: SoundEffect[];
+  onClose: () => void;
+}> = ({ provenance, characters, soundLibrary, onClose }) => {
+  const providerLabel = PROVIDER_OPTIONS.find(option => option.id === provenance.provider)?.label || provenance.provider;
+  const sound = soundLibrary.find(s => s.id === provenance.soundEffectId);
+  const params = Object.entries(provenance.params).filter(([, value]) => value !== undefined);
+
+  return (
+    <div className="absolute top-6 left-6 z-30 w-96 max-h-[80%] overflow-y-auto bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-4 space-y-2">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-bold text-white">Generation Details</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <ProvenanceRow label="Model">{provenance.model} <span className="text-gray-500">({providerLabel})</span></ProvenanceRow>
+      <ProvenanceRow label="Generated">
+        {new Date(provenance.createdAt).toLocaleString()}
+        <span className="text-gray-500"> · {(provenance.durationMs / 1000).toFixed(1)}s{provenance.cached && ', from cache'}</span>
+      </ProvenanceRow>
+      {provenance.characterIds && provenance.characterIds.length > 0 && (
+        <ProvenanceRow label="Characters">
+          {provenance.characterIds.map(id => {
+            const name = characters.find(c => c.id === id)?.name || `Deleted character (${id.slice(0, 8)})`;
+            const rotation = provenance.rotations?.[id];
+            return rotation ? `${name} (rotated ${rotation}°)` : name;
+          }).join(', ')}
+        </ProvenanceRow>
+      )}
+      {provenance.soundEffectId && (
+        <ProvenanceRow label="Sound effect">{sound?.name || `Deleted sound (${provenance.soundEffectId.slice(0, 8)})`}</ProvenanceRow>
+      )}
+      {provenance.sourceImageName && <ProvenanceRow label="Source image">{provenance.sourceImageName}</ProvenanceRow>}
+      {params.length > 0 && (
+        <ProvenanceRow label="Parameters">{params.map(([key, value]) => `${key}: ${value}`).join(', ')}</ProvenanceRow>
+      )}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-xs text-gray-500">Prompt sent</span>
+          <button onClick={() => navigator.clipboard?.writeText(provenance.prompt)} className="text-xs text-indigo-400 hover:text-indigo-300">
+            Copy
+          </button>
+        </div>
+        <p className="text-xs text-gray-300 bg-gray-800 rounded-md p-2 whitespace-pre-wrap break-words">{provenance.prompt}</p>
+      </div>
+    </div>
+  );
+};
+
+const ImageDownloadModal: React.FC<ImageDownloadModalProps> = ({ imageUrl, provenance, onClose }) => {
   const [format, setFormat] = useState<'png' | 'jpg'>('png');
   const [resolution, setResolution] = useState<1 | 2 | 4>(1);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -133,16 +387,30 @@ const ImageDownloadModal: React.FC<ImageDownloadModalProps> = ({ imageUrl, onClo
 
         const mimeType = format === 'jpg' ? 'image/jpeg' : 'image/png';
         const quality = format === 'jpg' ? 0.95 : undefined;
-        const dataUrl = canvas.toDataURL(mimeType, quality);
+        let blob = await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(result => result ? resolve(result) : reject(new Error('Could not encode the image')), mimeType, quality);
+        });
+        if (format === 'png' && provenance) {
+            blob = await addPngTextChunks(blob, {
+                Software: 'CharacterScene Studio',
+                Description: provenance.prompt,
+                'Creation Time': new Date(provenance.createdAt).toUTCString(),
+                Source: provenance.model,
+                // Everything, machine-readable
+                Provenance: JSON.stringify(provenance),
+            });
+        }
 
+        const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
-        a.href = dataUrl;
+        a.href = url;
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const resLabel = resolution === 1 ? 'original' : `${resolution}x`;
         a.download = `character-studio-${resLabel}-${timestamp}.${format}`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
+        URL.revokeObjectURL(url);
         
         onClose();
     } catch (e) {
@@ -191,6 +459,12 @@ const ImageDownloadModal: React.FC<ImageDownloadModalProps> = ({ imageUrl, onClo
                 </div>
             </div>
 
+            {provenance && (
+                <p className="text-xs text-gray-500 mb-4">
+                    {format === 'png' ? 'The prompt, model and settings are embedded in the file.' : 'Generation details are only embedded in PNG files.'}
+                </p>
+            )}
+
             <Button onClick={handleDownload} className="w-full" disabled={isProcessing}>
                 {isProcessing ? 'Processing...' : 'Download Image'}
             </Button>
@@ -237,10 +511,11 @@ const TransformableCharacter: React.FC<{
     position: { x: number, y: number };
     onRotationChange: (rot: number) => void;
     onPositionChange: (pos: { x: number, y: number }) => void;
+    onTransformEnd: () => void;
     isSelected: boolean;
     onSelect: () => void;
     containerRef: React.RefObject<HTMLDivElement>;
-}> = ({ character, rotation, position, onRotationChange, onPositionChange, isSelected, onSelect, containerRef }) => {
+}> = ({ character, rotation, position, onRotationChange, onPositionChange, onTransformEnd, isSelected, onSelect, containerRef }) => {
     const [isDragging, setIsDragging] = useState(false);
     const [isRotating, setIsRotating] = useState(false);
     const startPosRef = useRef({ x: 0, y: 0 });
@@ -309,6 +584,8 @@ const TransformableCharacter: React.FC<{
         const handleMouseUp = () => {
             setIsDragging(false);
             setIsRotating(false);
+            // One drag or rotation gesture is one undo step
+            onTransformEnd();
         };
 
         if (isDragging || isRotating) {
@@ -320,7 +597,7 @@ const TransformableCharacter: React.FC<{
             window.removeEventListener('mousemove', handleMouseMove);
             window.removeEventListener('mouseup', handleMouseUp);
         };
-    }, [isDragging, isRotating, onPositionChange, onRotationChange]);
+    }, [isDragging, isRotating, onPositionChange, onRotationChange, onTransformEnd]);
 
     return (
         <div
@@ -397,20 +674,32 @@ export const Canvas: React.FC<CanvasProps> = ({
     loadingMessage, 
     generatedContent, 
     error, 
+    onRetry,
+    onCancel,
     selectedCharacters, 
+    characters,
+    soundLibrary,
     onCharacterReorder,
     characterRotations,
     onRotationChange,
     characterPositions,
-    onPositionChange
+    onPositionChange,
+    onTransformEnd,
+    candidates,
+    onPromoteCandidate,
+    onDiscardCandidate,
+    onDiscardOtherCandidates,
+    onSaveCandidateAsCharacter,
 }) => {
   const [showDownloadModal, setShowDownloadModal] = useState(false);
+  const [showProvenance, setShowProvenance] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Close modal if content changes
   useEffect(() => {
     setShowDownloadModal(false);
+    setShowProvenance(false);
   }, [generatedContent]);
   
   // Set initial position to center for newly added characters
@@ -427,14 +716,20 @@ export const Canvas: React.FC<CanvasProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedCharacters.length]);
 
-  const downloadMedia = (url: string, type: 'video' | 'audio') => {
+  const downloadMedia = async (url: string, type: 'video' | 'audio') => {
       const a = document.createElement('a');
       a.href = url;
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       
-      let extension = 'dat';
-      if (type === 'video') extension = 'mp4';
-      if (type === 'audio') extension = 'wav';
+      // Name the file after what the blob actually holds: mock videos are WebM, not MP4
+      let extension = type === 'video' ? 'mp4' : 'wav';
+      try {
+          const blob = await (await fetch(url)).blob();
+          const subtype = blob.type.split(';')[0].split('/')[1];
+          if (subtype) extension = MEDIA_EXTENSIONS[subtype] || subtype;
+      } catch (e) {
+          console.warn("Could not read the media type, using the default extension", e);
+      }
       
       a.download = `character-studio-${type}-${timestamp}.${extension}`;
       document.body.appendChild(a);
@@ -442,15 +737,42 @@ export const Canvas: React.FC<CanvasProps> = ({
       document.body.removeChild(a);
   };
 
+  const provenanceButton = (className: string) => generatedContent?.provenance && (
+    <button
+        onClick={() => setShowProvenance(show => !show)}
+        className={`bg-gray-900/80 hover:bg-indigo-600 text-white p-2 rounded-full transition-all shadow-lg ${className}`}
+        title="Generation Details"
+    >
+        <InformationCircleIcon className="w-6 h-6" />
+    </button>
+  );
+
   const renderContent = () => {
     if (isLoading) {
-      return <Loader message={loadingMessage} />;
+      return (
+        <div className="flex flex-col items-center">
+          <Loader message={loadingMessage} />
+          {onCancel && (
+            <Button onClick={onCancel} variant="secondary" className="mt-6">
+              Cancel
+            </Button>
+          )}
+        </div>
+      );
     }
     if (error) {
+      const { title, guidance } = ERROR_GUIDANCE[typeof error === 'string' ? 'unknown' : error.kind];
       return (
-        <div className="text-center text-red-400 bg-red-900/50 p-6 rounded-lg">
-          <h3 className="font-bold text-lg mb-2">An Error Occurred</h3>
-          <p>{error}</p>
+        <div className="text-center text-red-400 bg-red-900/50 p-6 rounded-lg max-w-lg">
+          <h3 className="font-bold text-lg mb-2">{title}</h3>
+          <p>{typeof error === 'string' ? error : error.message}</p>
+          {guidance && <p className="text-sm text-red-200/80 mt-3">{guidance}</p>}
+          {typeof error !== 'string' && error.details && <ResponseDetailsView details={error.details} />}
+          {onRetry && (
+            <Button onClick={onRetry} variant="secondary" className="mx-auto mt-4">
+              Try Again
+            </Button>
+          )}
         </div>
       );
     }
@@ -459,7 +781,7 @@ export const Canvas: React.FC<CanvasProps> = ({
         return (
           <div className="relative group max-w-full max-h-full flex flex-col items-center" key={generatedContent.url}>
             {generatedContent.soundEffectUrl && <AudioPlayer url={generatedContent.soundEffectUrl} />}
-            <img src={generatedContent.url} alt="Generated content" className="max-w-full max-h-full object-contain rounded-lg shadow-2xl" />
+            <img src={generatedContent.url} alt="Generated content" className={`max-w-full ${candidates && candidates.length > 1 ? 'max-h-[55vh]' : 'max-h-full'} object-contain rounded-lg shadow-2xl`} />
             <button 
                 onClick={() => setShowDownloadModal(true)}
                 className="absolute top-4 right-4 bg-gray-900/80 hover:bg-indigo-600 text-white p-2 rounded-full opacity-0 group-hover:opacity-100 transition-all shadow-lg transform translate-y-2 group-hover:translate-y-0"
@@ -467,6 +789,30 @@ export const Canvas: React.FC<CanvasProps> = ({
             >
                 <DownloadIcon className="w-6 h-6" />
             </button>
+            {provenanceButton('absolute top-4 right-16 opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0')}
+            {candidates && candidates.length > 1 && (
+              <div className="mt-4 flex flex-col items-center gap-2">
+                <div className="flex items-center gap-3">
+                  <p className="text-sm text-gray-400">{candidates.length} candidates. Pick the best one.</p>
+                  {onDiscardOtherCandidates && (
+                    <Button onClick={onDiscardOtherCandidates} variant="secondary" className="px-3 py-1 text-xs">Discard Others</Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap justify-center gap-3">
+                  {candidates.map((url, index) => (
+                    <CandidateCard
+                      key={url}
+                      url={url}
+                      index={index}
+                      isCurrent={url === generatedContent.url}
+                      onPromote={() => onPromoteCandidate?.(url)}
+                      onDiscard={() => onDiscardCandidate?.(url)}
+                      onSaveAsCharacter={(name) => onSaveCandidateAsCharacter?.(url, name)}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         );
       }
@@ -481,6 +827,7 @@ export const Canvas: React.FC<CanvasProps> = ({
             >
                 <DownloadIcon className="w-6 h-6" />
             </button>
+            {provenanceButton('absolute top-4 right-16 opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0 z-10')}
           </div>
         );
       }
@@ -511,6 +858,7 @@ export const Canvas: React.FC<CanvasProps> = ({
                         <DownloadIcon className="w-5 h-5" />
                     </button>
                   </div>
+                  {provenanceButton('absolute top-4 right-4')}
               </div>
           )
       }
@@ -536,6 +884,7 @@ export const Canvas: React.FC<CanvasProps> = ({
                         position={characterPositions[char.id] || {x: 0, y: 0}}
                         onRotationChange={(rot) => onRotationChange(char.id, rot)}
                         onPositionChange={(pos) => onPositionChange(char.id, pos)}
+                        onTransformEnd={onTransformEnd}
                         isSelected={selectedId === char.id}
                         onSelect={() => setSelectedId(char.id)}
                         containerRef={containerRef}
@@ -560,9 +909,18 @@ export const Canvas: React.FC<CanvasProps> = ({
         {renderContent()}
       </div>
       <LayerManager characters={selectedCharacters} onReorder={onCharacterReorder} />
+      {showProvenance && !isLoading && generatedContent?.provenance && (
+        <ProvenancePanel
+            provenance={generatedContent.provenance}
+            characters={characters}
+            soundLibrary={soundLibrary}
+            onClose={() => setShowProvenance(false)}
+        />
+      )}
       {showDownloadModal && generatedContent?.type === 'image' && (
         <ImageDownloadModal 
             imageUrl={generatedContent.url} 
+            provenance={generatedContent.provenance}
             onClose={() => setShowDownloadModal(false)} 
         />
       )}
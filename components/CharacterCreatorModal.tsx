@@ -1,29 +1,145 @@
 
-import React, { useState, useCallback } from 'react';
-import { Character } from '../types';
-import { generateCharacterDescription, generateCharacterImage } from '../services/geminiService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Character, CharacterReference, CharacterView } from '../types';
+import { generateCharacterDescription, generateCharacterImage, generateCharacterView } from '../services/generationService';
 import { Button } from './common/Button';
 import { Loader } from './common/Loader';
-import { CloseIcon } from '../constants';
+import { CloseIcon, SparklesIcon, TrashIcon } from '../constants';
 import { fileToBase64 } from '../utils/fileUtils';
+import { CHARACTER_VIEWS, CHARACTER_VIEW_LABELS, getMissingViews } from '../utils/characterViewUtils';
 
 interface CharacterCreatorModalProps {
+  // Given when editing a character from the library; the modal then opens on the save step
+  character?: Character;
   onClose: () => void;
   onSave: (character: Character) => void;
 }
 
 type Step = 'UPLOAD' | 'DESCRIBE' | 'GENERATE' | 'SAVE';
 
-export const CharacterCreatorModal: React.FC<CharacterCreatorModalProps> = ({ onClose, onSave }) => {
-  const [step, setStep] = useState<Step>('UPLOAD');
+/**
+ * The reference sheet: the front view is the character image itself, and the other views are
+ * redrawn from it. "Generate Turnaround" fills in every missing view, one request at a time.
+ */
+const ReferenceViewsEditor: React.FC<{
+  frontImage: string;
+  prompt: string;
+  references: CharacterReference[];
+  onChange: React.Dispatch<React.SetStateAction<CharacterReference[]>>;
+}> = ({ frontImage, prompt, references, onChange }) => {
+  const [generatingView, setGeneratingView] = useState<CharacterView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Views drawn from another front image would not match it
+  useEffect(() => () => abortControllerRef.current?.abort(), [frontImage]);
+
+  const missingViews = getMissingViews(references);
+
+  const generateViews = async (views: CharacterView[]) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setError(null);
+    try {
+      for (const view of views) {
+        setGeneratingView(view);
+        const imageUrl = await generateCharacterView(frontImage, prompt, view, controller.signal);
+        onChange(prev => [...prev.filter(reference => reference.view !== view), { view, imageUrl }]);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError('Failed to generate a reference view. Please try again.');
+    } finally {
+      if (abortControllerRef.current === controller) setGeneratingView(null);
+    }
+  };
+
+  const removeView = (view: CharacterView) => {
+    onChange(prev => prev.filter(reference => reference.view !== view));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-300">Reference Views</label>
+        <Button
+          onClick={() => generateViews(missingViews)}
+          disabled={generatingView !== null || missingViews.length === 0}
+          variant="secondary"
+          className="px-3 py-1 text-xs"
+        >
+          <SparklesIcon className="w-4 h-4" />
+          Generate Turnaround
+        </Button>
+      </div>
+      <div className="grid grid-cols-5 gap-2">
+        {CHARACTER_VIEWS.map(view => {
+          const imageUrl = view === 'front' ? frontImage : references.find(reference => reference.view === view)?.imageUrl;
+          const isGenerating = generatingView === view;
+          return (
+            <div key={view} className="flex flex-col items-center gap-1">
+              <div className="relative w-full aspect-square bg-gray-800 border border-gray-700 rounded-md overflow-hidden group">
+                {imageUrl && <img src={imageUrl} alt={`${CHARACTER_VIEW_LABELS[view]} view`} className="w-full h-full object-contain" />}
+                {isGenerating && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-gray-900/70">
+                    <div className="w-5 h-5 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />
+                  </div>
+                )}
+                {view !== 'front' && !isGenerating && generatingView === null && (
+                  <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => generateViews([view])}
+                      className="bg-gray-900/80 p-1 rounded-full text-gray-300 hover:text-white"
+                      title={imageUrl ? 'Regenerate View' : 'Generate View'}
+                    >
+                      <SparklesIcon className="w-3 h-3" />
+                    </button>
+                    {imageUrl && (
+                      <button
+                        onClick={() => removeView(view)}
+                        className="bg-gray-900/80 p-1 rounded-full text-gray-300 hover:text-red-400"
+                        title="Remove View"
+                      >
+                        <TrashIcon className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <span className="text-xs text-gray-400">{CHARACTER_VIEW_LABELS[view]}</span>
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-red-500 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export const CharacterCreatorModal: React.FC<CharacterCreatorModalProps> = ({ character, onClose, onSave }) => {
+  const [step, setStep] = useState<Step>(character ? 'SAVE' : 'UPLOAD');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imageBase64, setImageBase64] = useState<string>('');
   const [description, setDescription] = useState('');
-  const [characterPrompt, setCharacterPrompt] = useState('');
-  const [generatedImage, setGeneratedImage] = useState<string>('');
-  const [characterName, setCharacterName] = useState('');
+  const [characterPrompt, setCharacterPrompt] = useState(character?.prompt || '');
+  const [generatedImage, setGeneratedImage] = useState<string>(character?.imageUrl || '');
+  // Every image from the last generation; the one picked becomes `generatedImage`
+  const [candidateImages, setCandidateImages] = useState<string[]>([]);
+  const [references, setReferences] = useState<CharacterReference[]>(character?.references || []);
+  const [characterName, setCharacterName] = useState(character?.name || '');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Closing the modal abandons whatever request is still running
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    return abortControllerRef.current.signal;
+  };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -37,13 +153,15 @@ export const CharacterCreatorModal: React.FC<CharacterCreatorModalProps> = ({ on
   };
 
   const handleDescribe = useCallback(async (file: File) => {
+    const signal = startRequest();
     setIsLoading(true);
     setError(null);
     try {
-      const desc = await generateCharacterDescription(file);
+      const desc = await generateCharacterDescription(file, signal);
       setDescription(desc);
       setCharacterPrompt(desc);
     } catch (err) {
+      if (signal.aborted) return;
       setError('Failed to generate description. Please try again.');
       setStep('UPLOAD');
     } finally {
@@ -52,26 +170,36 @@ export const CharacterCreatorModal: React.FC<CharacterCreatorModalProps> = ({ on
   }, []);
 
   const handleGenerate = async () => {
+    const signal = startRequest();
     setIsLoading(true);
     setError(null);
     try {
-      const img = await generateCharacterImage(characterPrompt);
-      setGeneratedImage(img);
+      const images = await generateCharacterImage(characterPrompt, signal);
+      setCandidateImages(images);
+      pickImage(images[0]);
       setStep('SAVE');
     } catch (err) {
+      if (signal.aborted) return;
       setError('Failed to generate character image. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Reference views belong to the front image they were drawn from
+  const pickImage = (url: string) => {
+    if (url !== generatedImage) setReferences([]);
+    setGeneratedImage(url);
+  };
+
   const handleSave = () => {
     if (characterName && generatedImage) {
       const newCharacter: Character = {
-        id: crypto.randomUUID(),
+        id: character?.id || crypto.randomUUID(),
         name: characterName,
         imageUrl: generatedImage,
         prompt: characterPrompt,
+        references: references.length > 0 ? references : undefined,
       };
       onSave(newCharacter);
     }
@@ -131,9 +259,24 @@ export const CharacterCreatorModal: React.FC<CharacterCreatorModalProps> = ({ on
       case 'SAVE':
         return (
           <div>
-            <h3 className="text-lg font-semibold mb-2">Save Your Character</h3>
+            <h3 className="text-lg font-semibold mb-2">{character ? 'Edit Character' : 'Save Your Character'}</h3>
             <div className="flex gap-4">
-              <img src={generatedImage} alt="Generated character" className="w-1/3 h-auto object-contain rounded-md" />
+              <div className="w-1/3 flex flex-col gap-2">
+                <img src={generatedImage} alt="Generated character" className="w-full h-auto object-contain rounded-md" />
+                {candidateImages.length > 1 && (
+                  <div className="grid grid-cols-4 gap-1" title="Pick the candidate to keep">
+                    {candidateImages.map((url, index) => (
+                      <button
+                        key={url}
+                        onClick={() => pickImage(url)}
+                        className={`rounded border-2 ${url === generatedImage ? 'border-indigo-500' : 'border-transparent hover:border-gray-500'}`}
+                      >
+                        <img src={url} alt={`Candidate ${index + 1}`} className="w-full h-auto rounded-sm" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               <div className="w-2/3 flex flex-col gap-4">
                 <input
                   type="text"
@@ -152,8 +295,16 @@ export const CharacterCreatorModal: React.FC<CharacterCreatorModalProps> = ({ on
                 </div>
               </div>
             </div>
+            <div className="mt-4">
+              <ReferenceViewsEditor
+                frontImage={generatedImage}
+                prompt={characterPrompt}
+                references={references}
+                onChange={setReferences}
+              />
+            </div>
             <div className="mt-4 flex justify-end">
-              <Button onClick={handleSave} disabled={!characterName}>Save to Library</Button>
+              <Button onClick={handleSave} disabled={!characterName}>{character ? 'Save Changes' : 'Save to Library'}</Button>
             </div>
           </div>
         );
@@ -1,18 +1,25 @@
 
-import React, { useState, useCallback } from 'react';
-import { AspectRatio, Character, ToolType, SoundEffect, Scene } from '../types';
+import React, { useState, useCallback, useMemo } from 'react';
+import { AspectRatio, Character, ImageAspectRatio, ToolType, SoundEffect, Scene } from '../types';
 import { Button } from './common/Button';
-import { generateScene, editImage, generateVideo, generateCharacterSpeech, generateImageFromInput, animateImage } from '../services/geminiService';
+import { generateScene, editImage, generateVideo, generateCharacterSpeech, generateImageFromInput, animateImage, checkGenerationUsage } from '../services/generationService';
 import { ApiKeySelector } from './ApiKeySelector';
-import { SaveIcon, VOICE_NAMES, UploadIcon, MusicIcon, TrashIcon, FilePlusIcon, ExportIcon, PhotoIcon, SparklesIcon } from '../constants';
+import { PromptProfileField } from './PromptProfileField';
+import { GenerationJobSpec } from '../services/jobQueue';
+import { SaveIcon, VOICE_NAMES, UploadIcon, MusicIcon, TrashIcon, FilePlusIcon, ExportIcon, PhotoIcon, SparklesIcon, UndoIcon, RedoIcon } from '../constants';
 import { fileToBase64 } from '../utils/fileUtils';
+import { IMAGE_ASPECT_RATIOS, VIDEO_ASPECT_RATIOS, parsePromptProfile } from '../utils/promptProfileUtils';
+import { UsageLimitCheck } from '../utils/usageUtils';
+import { expandPromptTemplate, getTemplateSuggestions } from '../utils/promptTemplateUtils';
 
 interface ControlsPanelProps {
   activeTool: ToolType;
   selectedCharacters: Character[];
-  setLoading: (isLoading: boolean, message: string) => void;
+  // The whole library, which prompt template variables can reference
+  characters: Character[];
+  // Generations run as background jobs; the canvas follows the one started last
+  enqueueGeneration: (spec: GenerationJobSpec) => void;
   setError: (error: string | null) => void;
-  onGenerationComplete: (content: { type: 'image' | 'video' | 'audio'; url: string; characterId?: string; soundEffectUrl?: string }) => void;
   
   // Scene Builder Props
   scenePrompt: string;
@@ -21,6 +28,8 @@ interface ControlsPanelProps {
   currentSceneName?: string;
   sceneSoundEffect: SoundEffect | undefined;
   setSceneSoundEffect: (sound: SoundEffect | undefined) => void;
+  sceneAspectRatio: ImageAspectRatio;
+  setSceneAspectRatio: (aspectRatio: ImageAspectRatio) => void;
   soundLibrary: SoundEffect[];
   setSoundLibrary: (library: SoundEffect[]) => void;
   characterRotations: Record<string, number>;
@@ -28,58 +37,146 @@ interface ControlsPanelProps {
   scenes: Scene[];
   onLoadScene: (scene: Scene) => void;
   onExportScene: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
+const ASPECT_RATIO_LABELS: Record<ImageAspectRatio, string> = {
+  '1:1': 'Square',
+  '3:4': 'Portrait',
+  '4:3': 'Landscape',
+  '9:16': 'Story',
+  '16:9': 'Wide',
+};
+
+/**
+ * Expands the template variables in a prompt input and validates the result as a prompt profile.
+ * `text` is what gets generated from; `preview` is only set when there was something to expand.
+ */
+const useTemplatedPrompt = (input: string, characters: Character[], sceneName?: string) => useMemo(() => {
+  const context = { characters, sceneName };
+  const template = expandPromptTemplate(input, context);
+  const { profile, issues } = parsePromptProfile(template.text);
+  return {
+    text: template.text,
+    profile,
+    // Profile issues are found in the expanded text, but point at lines of the input
+    issues: [...template.issues, ...issues.map(issue => issue.line ? { ...issue, line: template.toInputLine(issue.line) } : issue)],
+    suggestions: getTemplateSuggestions(context),
+    preview: template.hasVariables ? template.text : undefined,
+  };
+}, [input, characters, sceneName]);
+
+// Shown above the generate button once the next scene or video would go past a spending limit
+const UsageLimitNotice: React.FC<{ check: UsageLimitCheck }> = ({ check }) => {
+  if (check.status === 'ok') return null;
+  return (
+    <p className={`text-xs rounded-md px-3 py-2 border ${
+      check.status === 'block' ? 'text-red-300 bg-red-900/30 border-red-800' : 'text-amber-300 bg-amber-900/30 border-amber-800'
+    }`}>
+      {check.message} {check.status === 'block' ? 'Raise the limit in Settings to continue.' : 'You can still generate.'}
+    </p>
+  );
+};
+
+// An `aspect_ratio` in the prompt profile takes precedence over the selection, which the selector points out
+const ImageAspectRatioSelector: React.FC<{
+  value: ImageAspectRatio;
+  onChange: (aspectRatio: ImageAspectRatio) => void;
+  profileAspectRatio?: ImageAspectRatio;
+}> = ({ value, onChange, profileAspectRatio }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
+    <div className="grid grid-cols-5 gap-2">
+      {IMAGE_ASPECT_RATIOS.map(ratio => {
+        const [width, height] = ratio.split(':').map(Number);
+        const isActive = (profileAspectRatio || value) === ratio;
+        return (
+          <button
+            key={ratio}
+            onClick={() => onChange(ratio)}
+            title={ASPECT_RATIO_LABELS[ratio]}
+            className={`flex flex-col items-center gap-1 py-2 rounded-md border text-xs ${
+              isActive ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <span className="h-5 flex items-center">
+              <span className="block border border-current rounded-sm" style={{ width: `${(20 * width) / Math.max(width, height)}px`, height: `${(20 * height) / Math.max(width, height)}px` }} />
+            </span>
+            {ratio}
+          </button>
+        );
+      })}
+    </div>
+    {profileAspectRatio && (
+      <p className="text-xs text-gray-400 mt-2">Set to {profileAspectRatio} by the prompt's "aspect_ratio" field.</p>
+    )}
+  </div>
+);
+
 const SceneBuilder: React.FC<Omit<ControlsPanelProps, 'activeTool'>> = ({ 
   selectedCharacters, 
-  setLoading, 
+  characters,
+  enqueueGeneration, 
   setError, 
-  onGenerationComplete,
   scenePrompt,
   setScenePrompt,
   onSaveScene,
   currentSceneName,
   sceneSoundEffect,
   setSceneSoundEffect,
+  sceneAspectRatio,
+  setSceneAspectRatio,
   soundLibrary,
   setSoundLibrary,
   characterRotations,
   onResetScene,
   scenes,
   onLoadScene,
-  onExportScene
+  onExportScene,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo
 }) => {
   const [isSaving, setIsSaving] = useState(false);
   const [sceneName, setSceneName] = useState('');
   const [soundTab, setSoundTab] = useState<'SELECT' | 'UPLOAD'>('SELECT');
   const [sceneToLoad, setSceneToLoad] = useState('');
 
-  const handleGenerate = useCallback(async () => {
+  const prompt = useTemplatedPrompt(scenePrompt, characters, currentSceneName);
+  const usageCheck = checkGenerationUsage('scene');
+
+  const handleGenerate = useCallback(() => {
     if (selectedCharacters.length === 0) {
       setError("Please select at least one character from the library.");
       return;
     }
-    setLoading(true, "Building your scene...");
-    setError(null);
-    try {
-      const imageUrl = await generateScene(
-          selectedCharacters, 
-          scenePrompt, 
-          characterRotations, 
-          (msg) => setLoading(true, msg) // Pass progress callback
-      );
-      // Wait slightly to ensure state propagation if needed, though usually automatic
-      onGenerationComplete({ 
-        type: 'image', 
-        url: imageUrl, 
-        soundEffectUrl: sceneSoundEffect?.url 
-      });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to generate scene.");
-    } finally {
-      setLoading(false, "");
-    }
-  }, [selectedCharacters, scenePrompt, setLoading, setError, onGenerationComplete, sceneSoundEffect, characterRotations]);
+    if (prompt.issues.length > 0) return;
+    // The job keeps this composition even if the builder changes while it waits
+    enqueueGeneration({
+      tool: 'SCENE_BUILDER',
+      label: 'Scene',
+      inputs: [
+        { label: 'Characters', value: selectedCharacters.map(c => c.name).join(', ') },
+        { label: 'Prompt', value: prompt.text },
+        { label: 'Aspect ratio', value: sceneAspectRatio },
+      ],
+      run: async ({ signal, setProgress, cache }) => {
+        const { urls, provenance } = await generateScene(selectedCharacters, prompt.text, characterRotations, sceneAspectRatio, setProgress, signal, cache);
+        return {
+          type: 'image',
+          url: urls[0],
+          candidates: urls,
+          prompt: prompt.text,
+          soundEffectUrl: sceneSoundEffect?.url,
+          provenance: { ...provenance, soundEffectId: sceneSoundEffect?.id },
+        };
+      },
+    });
+  }, [selectedCharacters, prompt, enqueueGeneration, setError, sceneSoundEffect, characterRotations, sceneAspectRatio]);
 
   const initiateSave = () => {
     if (selectedCharacters.length === 0) {
@@ -132,6 +229,12 @@ const SceneBuilder: React.FC<Omit<ControlsPanelProps, 'activeTool'>> = ({
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-xl font-bold text-white">Scene Builder</h2>
         <div className="flex gap-2">
+           <Button onClick={onUndo} variant="secondary" className="px-2" title="Undo (Ctrl+Z)" disabled={!canUndo}>
+              <UndoIcon className="w-4 h-4" />
+           </Button>
+           <Button onClick={onRedo} variant="secondary" className="px-2" title="Redo (Ctrl+Shift+Z)" disabled={!canRedo}>
+              <RedoIcon className="w-4 h-4" />
+           </Button>
            <Button onClick={onResetScene} variant="secondary" className="px-2" title="New Scene">
               <FilePlusIcon className="w-4 h-4" />
            </Button>
@@ -152,14 +255,19 @@ const SceneBuilder: React.FC<Omit<ControlsPanelProps, 'activeTool'>> = ({
           {/* Prompt Section */}
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-300">Scene Description</label>
-            <textarea
-              className="w-full h-32 p-3 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white placeholder-gray-500 resize-none"
+            <PromptProfileField
               placeholder="Describe the scene setting, lighting, and action..."
               value={scenePrompt}
-              onChange={(e) => setScenePrompt(e.target.value)}
+              onChange={setScenePrompt}
+              issues={prompt.issues}
+              suggestions={prompt.suggestions}
+              preview={prompt.preview}
             />
+            <p className="text-xs text-gray-500">Type {'{{'} to insert a character's name or prompt, e.g. {'{{Alice.prompt}}'}.</p>
           </div>
 
+          <ImageAspectRatioSelector value={sceneAspectRatio} onChange={setSceneAspectRatio} profileAspectRatio={prompt.profile.aspect_ratio} />
+
           {/* Sound Effect Section */}
           <div className="space-y-2 bg-gray-800/50 p-3 rounded-lg border border-gray-700">
              <div className="flex justify-between items-center mb-2">
@@ -226,7 +334,8 @@ const SceneBuilder: React.FC<Omit<ControlsPanelProps, 'activeTool'>> = ({
       </div>
 
       <div className="pt-4 mt-auto border-t border-gray-700 flex flex-col gap-3">
-        <Button onClick={handleGenerate} className="w-full py-3 text-lg shadow-lg shadow-indigo-500/20">
+        <UsageLimitNotice check={usageCheck} />
+        <Button onClick={handleGenerate} disabled={prompt.issues.length > 0 || usageCheck.status === 'block'} className="w-full py-3 text-lg shadow-lg shadow-indigo-500/20">
           Generate Scene
         </Button>
         
@@ -258,22 +367,26 @@ const SceneBuilder: React.FC<Omit<ControlsPanelProps, 'activeTool'>> = ({
   );
 };
 
-const ImageGeneratorPanel: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError' | 'onGenerationComplete'>> = ({ setLoading, setError, onGenerationComplete }) => {
+const ImageGeneratorPanel: React.FC<Pick<ControlsPanelProps, 'enqueueGeneration' | 'characters' | 'currentSceneName'>> = ({ enqueueGeneration, characters, currentSceneName }) => {
   const [input, setInput] = useState('');
-
-  const handleGenerate = async () => {
-    if (!input.trim()) return;
-    setLoading(true, "Generating image...");
-    setError(null);
-    try {
-      // Pass the progress callback to handle progression_text from JSON input
-      const resultUrl = await generateImageFromInput(input, (msg) => setLoading(true, msg));
-      onGenerationComplete({ type: 'image', url: resultUrl });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to generate image.");
-    } finally {
-      setLoading(false, "");
-    }
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>('1:1');
+  const prompt = useTemplatedPrompt(input, characters, currentSceneName);
+
+  const handleGenerate = () => {
+    if (!input.trim() || prompt.issues.length > 0) return;
+    enqueueGeneration({
+      tool: 'IMAGE_GENERATOR',
+      label: 'Image',
+      inputs: [
+        { label: 'Prompt', value: prompt.text },
+        { label: 'Aspect ratio', value: aspectRatio },
+      ],
+      run: async ({ signal, setProgress, cache }) => {
+        // Pass the progress callback to handle progression_text from JSON input
+        const { urls, provenance } = await generateImageFromInput(prompt.text, aspectRatio, setProgress, signal, cache);
+        return { type: 'image', url: urls[0], candidates: urls, prompt: prompt.text, provenance };
+      },
+    });
   };
 
   return (
@@ -284,31 +397,38 @@ const ImageGeneratorPanel: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'set
       
       <div className="flex-grow space-y-4">
         <p className="text-gray-400 text-sm">
-            Enter a text prompt or paste a JSON configuration object.
+            Enter a text prompt or paste a JSON configuration object. Type {'{{'} to reference a character from the library.
         </p>
         
         <div className="flex-grow">
           <label className="block text-sm font-medium text-gray-300 mb-2">Prompt / JSON Input</label>
-          <textarea
-            className="w-full h-64 p-3 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white placeholder-gray-500 resize-none font-mono text-sm"
-            placeholder={'e.g. "A magical forest"\n\nOR\n\n{\n  "prompt": "A magical forest",\n  "transparent_background": true\n}'}
+          <PromptProfileField
+            className="h-64"
+            textClassName="font-mono text-sm"
+            placeholder={'e.g. "A magical forest"\n\nOR\n\n{\n  "prompt": "A magical forest",\n  "style": "watercolor",\n  "aspect_ratio": "16:9",\n  "transparent_background": true\n}'}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={setInput}
+            issues={prompt.issues}
+            suggestions={prompt.suggestions}
+            preview={prompt.preview}
           />
         </div>
+
+        <ImageAspectRatioSelector value={aspectRatio} onChange={setAspectRatio} profileAspectRatio={prompt.profile.aspect_ratio} />
       </div>
 
-      <Button onClick={handleGenerate} disabled={!input.trim()} className="w-full py-3">
+      <Button onClick={handleGenerate} disabled={!input.trim() || prompt.issues.length > 0} className="w-full py-3">
         Generate Image
       </Button>
     </div>
   );
 };
 
-const ImageEditor: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError' | 'onGenerationComplete'>> = ({ setLoading, setError, onGenerationComplete }) => {
+const ImageEditor: React.FC<Pick<ControlsPanelProps, 'enqueueGeneration'>> = ({ enqueueGeneration }) => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string>('');
   const [prompt, setPrompt] = useState('');
+  const promptIssues = useMemo(() => parsePromptProfile(prompt).issues, [prompt]);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -318,18 +438,19 @@ const ImageEditor: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError' |
     }
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = () => {
     if (!imageFile || !prompt) return;
-    setLoading(true, "Editing image...");
-    setError(null);
-    try {
-      const resultUrl = await editImage(imageFile, prompt);
-      onGenerationComplete({ type: 'image', url: resultUrl });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to edit image.");
-    } finally {
-      setLoading(false, "");
-    }
+    enqueueGeneration({
+      tool: 'IMAGE_EDITOR',
+      label: 'Image Edit',
+      inputs: [
+        { label: 'Image', value: imageFile.name },
+        { label: 'Prompt', value: prompt },
+      ],
+      run: async ({ signal, setProgress, cache }) => {
+        return { type: 'image', ...await editImage(imageFile, prompt, setProgress, signal, cache) };
+      },
+    });
   };
 
   return (
@@ -356,29 +477,30 @@ const ImageEditor: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError' |
 
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Edit Instructions</label>
-          <textarea
-            className="w-full h-32 p-3 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white placeholder-gray-500 resize-none"
+          <PromptProfileField
             placeholder="e.g., Change the background to a futuristic city, make it night time..."
             value={prompt}
-            onChange={(e) => setPrompt(e.target.value)}
-            rows={5}
+            onChange={setPrompt}
+            issues={promptIssues}
           />
         </div>
       </div>
 
-      <Button onClick={handleGenerate} disabled={!imageFile || !prompt} className="w-full py-3">
+      <Button onClick={handleGenerate} disabled={!imageFile || !prompt || promptIssues.length > 0} className="w-full py-3">
         Generate Edit
       </Button>
     </div>
   );
 };
 
-const AnimatePicturePanel: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError' | 'onGenerationComplete'>> = ({ setLoading, setError, onGenerationComplete }) => {
+const AnimatePicturePanel: React.FC<Pick<ControlsPanelProps, 'enqueueGeneration'>> = ({ enqueueGeneration }) => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string>('');
   const [input, setInput] = useState('');
   const [keySelected, setKeySelected] = useState(false);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const promptIssues = useMemo(() => parsePromptProfile(input, VIDEO_ASPECT_RATIOS).issues, [input]);
+  const usageCheck = checkGenerationUsage('video');
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -388,23 +510,20 @@ const AnimatePicturePanel: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'set
     }
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = () => {
     if (!imageFile || !input || !keySelected) return;
-    setLoading(true, "Animating picture...");
-    setError(null);
-    try {
-      const videoUrl = await animateImage(
-          imageFile, 
-          input, 
-          aspectRatio,
-          (msg) => setLoading(true, msg)
-      );
-      onGenerationComplete({ type: 'video', url: videoUrl });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to animate picture.");
-    } finally {
-      setLoading(false, "");
-    }
+    enqueueGeneration({
+      tool: 'ANIMATE_PICTURE',
+      label: 'Animation',
+      inputs: [
+        { label: 'Image', value: imageFile.name },
+        { label: 'Prompt', value: input },
+        { label: 'Aspect ratio', value: aspectRatio },
+      ],
+      run: async ({ signal, setProgress }) => {
+        return { type: 'video', ...await animateImage(imageFile, input, aspectRatio, setProgress, signal) };
+      },
+    });
   };
 
   if (!keySelected) {
@@ -441,11 +560,12 @@ const AnimatePicturePanel: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'set
 
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Prompt / JSON Input</label>
-          <textarea
-            className="w-full h-32 p-3 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white placeholder-gray-500 resize-none font-mono text-xs"
+          <PromptProfileField
+            textClassName="font-mono text-xs"
             placeholder={'Describe the motion (e.g. "The water flows")\n\nOR\n\n{\n  "prompt": "The water flows",\n  "progression_text": "Animating the waves..."\n}'}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={setInput}
+            issues={promptIssues}
           />
         </div>
 
@@ -472,18 +592,21 @@ const AnimatePicturePanel: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'set
         </div>
       </div>
 
-      <Button onClick={handleGenerate} disabled={!imageFile || !input} className="w-full py-3">
+      <UsageLimitNotice check={usageCheck} />
+      <Button onClick={handleGenerate} disabled={!imageFile || !input || promptIssues.length > 0 || usageCheck.status === 'block'} className="w-full py-3">
         Animate
       </Button>
     </div>
   );
 };
 
-const VideoGenerator: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError' | 'onGenerationComplete'>> = ({ setLoading, setError, onGenerationComplete }) => {
+const VideoGenerator: React.FC<Pick<ControlsPanelProps, 'enqueueGeneration'>> = ({ enqueueGeneration }) => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string>('');
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const promptIssues = useMemo(() => parsePromptProfile(prompt, VIDEO_ASPECT_RATIOS).issues, [prompt]);
+  const usageCheck = checkGenerationUsage('video');
   const [keySelected, setKeySelected] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -494,18 +617,20 @@ const VideoGenerator: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError
     }
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = () => {
     if (!imageFile || !prompt || !keySelected) return;
-    setLoading(true, "Generating video...");
-    setError(null);
-    try {
-      const videoUrl = await generateVideo(imageFile, prompt, aspectRatio, (msg) => setLoading(true, msg));
-      onGenerationComplete({ type: 'video', url: videoUrl });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to generate video.");
-    } finally {
-      setLoading(false, "");
-    }
+    enqueueGeneration({
+      tool: 'VIDEO_GENERATOR',
+      label: 'Video',
+      inputs: [
+        { label: 'Image', value: imageFile.name },
+        { label: 'Prompt', value: prompt },
+        { label: 'Aspect ratio', value: aspectRatio },
+      ],
+      run: async ({ signal, setProgress }) => {
+        return { type: 'video', ...await generateVideo(imageFile, prompt, aspectRatio, setProgress, signal) };
+      },
+    });
   };
 
   if (!keySelected) {
@@ -540,12 +665,12 @@ const VideoGenerator: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError
 
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Motion Prompt</label>
-          <input
-            type="text"
-            className="w-full p-3 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white placeholder-gray-500"
+          <PromptProfileField
+            className="h-24"
             placeholder="Describe the movement..."
             value={prompt}
-            onChange={(e) => setPrompt(e.target.value)}
+            onChange={setPrompt}
+            issues={promptIssues}
           />
         </div>
 
@@ -572,14 +697,17 @@ const VideoGenerator: React.FC<Pick<ControlsPanelProps, 'setLoading' | 'setError
         </div>
       </div>
 
-      <Button onClick={handleGenerate} disabled={!imageFile || !prompt} className="w-full py-3">
+      <UsageLimitNotice check={usageCheck} />
+      <Button onClick={handleGenerate} disabled={!imageFile || !prompt || promptIssues.length > 0 || usageCheck.status === 'block'} className="w-full py-3">
         Generate Video
       </Button>
     </div>
   );
 };
 
-const CharacterVoicePanel: React.FC<Pick<ControlsPanelProps, 'selectedCharacters' | 'setLoading' | 'setError' | 'onGenerationComplete'>> = ({ selectedCharacters, setLoading, setError, onGenerationComplete }) => {
+const CharacterVoicePanel: React.FC<Pick<ControlsPanelProps, 'selectedCharacters' | 'characters' | 'currentSceneName' | 'enqueueGeneration'>> = ({
+  selectedCharacters, characters, currentSceneName, enqueueGeneration,
+}) => {
   const [text, setText] = useState('');
   const [selectedVoice, setSelectedVoice] = useState(VOICE_NAMES[0]);
   const [targetCharacterId, setTargetCharacterId] = useState<string>('');
@@ -591,22 +719,30 @@ const CharacterVoicePanel: React.FC<Pick<ControlsPanelProps, 'selectedCharacters
       }
   }, [selectedCharacters, targetCharacterId]);
 
-  const handleGenerate = async () => {
-    if (!text) return;
-    setLoading(true, "Generating speech...");
-    setError(null);
-    try {
-      const audioUrl = await generateCharacterSpeech(text, selectedVoice);
-      onGenerationComplete({ 
-          type: 'audio', 
-          url: audioUrl,
-          characterId: targetCharacterId || undefined
-      });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to generate speech.");
-    } finally {
-      setLoading(false, "");
-    }
+  // Spoken text is not a prompt profile, so only the variables are expanded
+  const template = useMemo(() => {
+    const context = { characters, sceneName: currentSceneName };
+    return { ...expandPromptTemplate(text, context), suggestions: getTemplateSuggestions(context) };
+  }, [text, characters, currentSceneName]);
+
+  const handleGenerate = () => {
+    if (!text || template.issues.length > 0) return;
+    const spokenText = template.text;
+    const characterId = targetCharacterId || undefined;
+    const characterName = selectedCharacters.find(c => c.id === characterId)?.name;
+    enqueueGeneration({
+      tool: 'CHARACTER_VOICE',
+      label: 'Speech',
+      inputs: [
+        ...(characterName ? [{ label: 'Character', value: characterName }] : []),
+        { label: 'Voice', value: selectedVoice },
+        { label: 'Text', value: spokenText },
+      ],
+      run: async ({ signal, cache }) => {
+        const { url, provenance } = await generateCharacterSpeech(spokenText, selectedVoice, signal, cache);
+        return { type: 'audio', url, characterId, provenance: { ...provenance, characterIds: characterId ? [characterId] : undefined } };
+      },
+    });
   };
 
   return (
@@ -631,11 +767,14 @@ const CharacterVoicePanel: React.FC<Pick<ControlsPanelProps, 'selectedCharacters
 
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Spoken Text</label>
-          <textarea
-            className="w-full h-40 p-3 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white placeholder-gray-500 resize-none"
-            placeholder="Enter what the character should say..."
+          <PromptProfileField
+            className="h-40"
+            placeholder="Enter what the character should say... Type {{ to insert a name."
             value={text}
-            onChange={(e) => setText(e.target.value)}
+            onChange={setText}
+            issues={template.issues}
+            suggestions={template.suggestions}
+            preview={template.hasVariables ? template.text : undefined}
           />
         </div>
 
@@ -659,7 +798,7 @@ const CharacterVoicePanel: React.FC<Pick<ControlsPanelProps, 'selectedCharacters
         </div>
       </div>
 
-      <Button onClick={handleGenerate} disabled={!text} className="w-full py-3">
+      <Button onClick={handleGenerate} disabled={!text || template.issues.length > 0} className="w-full py-3">
         Generate Speech
       </Button>
     </div>
@@ -674,38 +813,32 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
       {activeTool === 'SCENE_BUILDER' && <SceneBuilder {...rest} />}
       {activeTool === 'IMAGE_GENERATOR' && (
         <ImageGeneratorPanel 
-            setLoading={rest.setLoading} 
-            setError={rest.setError} 
-            onGenerationComplete={rest.onGenerationComplete} 
+            enqueueGeneration={rest.enqueueGeneration} 
+            characters={rest.characters}
+            currentSceneName={rest.currentSceneName}
         />
       )}
       {activeTool === 'ANIMATE_PICTURE' && (
         <AnimatePicturePanel
-            setLoading={rest.setLoading} 
-            setError={rest.setError} 
-            onGenerationComplete={rest.onGenerationComplete} 
+            enqueueGeneration={rest.enqueueGeneration} 
         />
       )}
       {activeTool === 'IMAGE_EDITOR' && (
         <ImageEditor 
-            setLoading={rest.setLoading} 
-            setError={rest.setError} 
-            onGenerationComplete={rest.onGenerationComplete} 
+            enqueueGeneration={rest.enqueueGeneration} 
         />
       )}
       {activeTool === 'VIDEO_GENERATOR' && (
         <VideoGenerator 
-            setLoading={rest.setLoading} 
-            setError={rest.setError} 
-            onGenerationComplete={rest.onGenerationComplete} 
+            enqueueGeneration={rest.enqueueGeneration} 
         />
       )}
       {activeTool === 'CHARACTER_VOICE' && (
         <CharacterVoicePanel 
             selectedCharacters={rest.selectedCharacters}
-            setLoading={rest.setLoading} 
-            setError={rest.setError} 
-            onGenerationComplete={rest.onGenerationComplete} 
+            characters={rest.characters}
+            currentSceneName={rest.currentSceneName}
+            enqueueGeneration={rest.enqueueGeneration} 
         />
       )}
     </aside>
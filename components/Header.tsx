@@ -1,11 +1,21 @@
 
 import React from 'react';
 import { ToolType } from '../types';
-import { SceneIcon, EditIcon, VideoIcon, MicrophoneIcon, PhotoIcon, SparklesIcon } from '../constants';
+import { SceneIcon, EditIcon, VideoIcon, MicrophoneIcon, PhotoIcon, SparklesIcon, ClockIcon, CircleStackIcon, ChartBarIcon, CogIcon, QueueListIcon } from '../constants';
+import { AUTOSAVE_INTERVAL_OPTIONS } from '../utils/autosaveUtils';
 
 interface HeaderProps {
   activeTool: ToolType;
   setActiveTool: (tool: ToolType) => void;
+  autosaveInterval: number;
+  onAutosaveIntervalChange: (interval: number) => void;
+  onOpenAutosaves: () => void;
+  onOpenStorage: () => void;
+  onOpenUsage: () => void;
+  onOpenSettings: () => void;
+  // Queued plus running generations, shown as a badge on the jobs button
+  activeJobCount: number;
+  onToggleJobs: () => void;
 }
 
 const ToolButton: React.FC<{
@@ -25,7 +35,7 @@ const ToolButton: React.FC<{
   </button>
 );
 
-export const Header: React.FC<HeaderProps> = ({ activeTool, setActiveTool }) => {
+export const Header: React.FC<HeaderProps> = ({ activeTool, setActiveTool, autosaveInterval, onAutosaveIntervalChange, onOpenAutosaves, onOpenStorage, onOpenUsage, onOpenSettings, activeJobCount, onToggleJobs }) => {
   return (
     <header className="bg-gray-800/50 backdrop-blur-sm border-b border-gray-700 p-4 w-full">
       <div className="max-w-screen-2xl mx-auto flex justify-between items-center">
@@ -68,6 +78,39 @@ export const Header: React.FC<HeaderProps> = ({ activeTool, setActiveTool }) =>
             onClick={() => setActiveTool('CHARACTER_VOICE')}
           />
         </div>
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <label htmlFor="autosave-interval">Autosave</label>
+          <select
+            id="autosave-interval"
+            value={autosaveInterval}
+            onChange={(e) => onAutosaveIntervalChange(Number(e.target.value))}
+            className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          >
+            {AUTOSAVE_INTERVAL_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button onClick={onToggleJobs} className="relative p-1.5 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white" title="Generation jobs">
+            <QueueListIcon className="w-5 h-5" />
+            {activeJobCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-indigo-600 text-white text-[10px] font-bold flex items-center justify-center">
+                {activeJobCount}
+              </span>
+            )}
+          </button>
+          <button onClick={onOpenAutosaves} className="p-1.5 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white" title="Recover autosaved work">
+            <ClockIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onOpenStorage} className="p-1.5 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white" title="Storage usage">
+            <CircleStackIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onOpenUsage} className="p-1.5 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white" title="API usage">
+            <ChartBarIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onOpenSettings} className="p-1.5 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white" title="Settings">
+            <CogIcon className="w-5 h-5" />
+          </button>
+        </div>
       </div>
     </header>
   );
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Character } from '../types';
+import { Button } from './common/Button';
+import { CloseIcon } from '../constants';
+import { CharacterImportItem, ImportAction, ImportStatus } from '../utils/importUtils';
+
+interface ImportReviewModalProps {
+  items: CharacterImportItem[];
+  onClose: () => void;
+  onConfirm: (items: CharacterImportItem[]) => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-900/60 text-green-300' },
+  identical: { label: 'Identical', className: 'bg-gray-700 text-gray-300' },
+  conflict: { label: 'Conflict', className: 'bg-amber-900/60 text-amber-300' },
+};
+
+const ACTIONS_BY_STATUS: Record<ImportStatus, { action: ImportAction; label: string }[]> = {
+  new: [
+    { action: 'import', label: 'Import' },
+    { action: 'skip', label: 'Skip' },
+  ],
+  identical: [
+    { action: 'skip', label: 'Keep' },
+    { action: 'copy', label: 'Import as Copy' },
+  ],
+  conflict: [
+    { action: 'skip', label: 'Keep' },
+    { action: 'replace', label: 'Replace' },
+    { action: 'copy', label: 'Import as Copy' },
+  ],
+};
+
+const CharacterPreview: React.FC<{ character: Character; caption: string }> = ({ character, caption }) => (
+  <div className="flex-1 min-w-0 flex gap-3 bg-gray-900/50 rounded-md p-2">
+    <img src={character.imageUrl} alt={character.name} className="w-16 h-16 rounded object-cover flex-shrink-0" />
+    <div className="min-w-0">
+      <p className="text-xs uppercase text-gray-500 font-bold">{caption}</p>
+      <p className="text-sm font-semibold text-white truncate">{character.name}</p>
+      <p className="text-xs text-gray-400 line-clamp-3" title={character.prompt}>{character.prompt || <em>No prompt</em>}</p>
+    </div>
+  </div>
+);
+
+export const ImportReviewModal: React.FC<ImportReviewModalProps> = ({ items, onClose, onConfirm }) => {
+  const [reviewed, setReviewed] = useState<CharacterImportItem[]>(items);
+
+  const counts = reviewed.reduce<Record<ImportStatus, number>>(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { new: 0, identical: 0, conflict: 0 }
+  );
+
+  const setAction = (index: number, action: ImportAction) => {
+    setReviewed(prev => prev.map((item, i) => i === index ? { ...item, action } : item));
+  };
+
+  // "Apply to all" for big libraries: sets the same action on every item with this status
+  const applyToAll = (status: ImportStatus, action: ImportAction) => {
+    setReviewed(prev => prev.map(item => item.status === status ? { ...item, action } : item));
+  };
+
+  const importCount = reviewed.filter(item => item.action !== 'skip').length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-3xl p-6 relative flex flex-col max-h-[90vh]">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+
+        <h3 className="text-lg font-semibold mb-1">Review Import</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          {counts.new} new, {counts.identical} identical, {counts.conflict} conflicting with characters already in your library.
+        </p>
+
+        {counts.conflict > 1 && (
+          <div className="flex items-center gap-2 mb-4 text-sm">
+            <span className="text-gray-300">Apply to all conflicts:</span>
+            {ACTIONS_BY_STATUS.conflict.map(({ action, label }) => (
+              <button
+                key={action}
+                onClick={() => applyToAll('conflict', action)}
+                className="px-2 py-1 text-xs rounded-md bg-gray-700 text-gray-200 hover:bg-indigo-600"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-grow overflow-y-auto pr-2 space-y-3">
+          {reviewed.map((item, index) => {
+            const status = STATUS_STYLES[item.status];
+            return (
+              <div key={`${item.incoming.id}-${index}`} className="bg-gray-800/60 border border-gray-700 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                  <div className="flex gap-1 bg-gray-900/50 p-1 rounded-lg">
+                    {ACTIONS_BY_STATUS[item.status].map(({ action, label }) => (
+                      <button
+                        key={action}
+                        onClick={() => setAction(index, action)}
+                        className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${item.action === action ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-3">
+                  {item.existing && item.status === 'conflict' && (
+                    <CharacterPreview character={item.existing} caption={item.existingInFile ? 'Earlier in File' : 'In Library'} />
+                  )}
+                  <CharacterPreview character={item.incoming} caption="Incoming" />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <Button onClick={onClose} variant="secondary">Cancel</Button>
+          <Button onClick={() => onConfirm(reviewed)} disabled={importCount === 0}>
+            Import {importCount} Character{importCount === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
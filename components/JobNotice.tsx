@@ -0,0 +1,34 @@
+import React from 'react';
+import { Button } from './common/Button';
+import { CloseIcon } from '../constants';
+import { GenerationJob } from '../services/jobQueue';
+
+interface JobNoticeProps {
+  job: GenerationJob;
+  onOpen: () => void;
+  onShowJobs: () => void;
+  onDismiss: () => void;
+}
+
+// Toast for a background job that finished while the canvas was busy with something else
+export const JobNotice: React.FC<JobNoticeProps> = ({ job, onOpen, onShowJobs, onDismiss }) => {
+  const succeeded = job.status === 'succeeded';
+
+  return (
+    <div className={`fixed bottom-4 right-4 z-40 w-80 bg-gray-900 border rounded-lg shadow-xl p-4 ${succeeded ? 'border-indigo-500' : 'border-red-700'}`}>
+      <button onClick={onDismiss} className="absolute top-3 right-3 text-gray-400 hover:text-white">
+        <CloseIcon className="w-5 h-5" />
+      </button>
+      <p className="text-sm font-semibold text-white pr-6">
+        {succeeded ? `${job.label} is ready` : `${job.label} failed`}
+      </p>
+      <p className="text-xs text-gray-400 mt-1 line-clamp-2">
+        {succeeded ? 'Started before the page was reloaded.' : job.error?.message}
+      </p>
+      <div className="flex justify-end gap-2 mt-3">
+        <Button onClick={onShowJobs} variant="secondary" className="px-3 py-1 text-xs">Show Jobs</Button>
+        {succeeded && <Button onClick={onOpen} className="px-3 py-1 text-xs">Open in Canvas</Button>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Scene } from '../types';
+import { Button } from './common/Button';
+import { CloseIcon } from '../constants';
+import { GenerationJob, JobStatus, isJobActive } from '../services/jobQueue';
+
+interface JobsPanelProps {
+  jobs: GenerationJob[];
+  scenes: Scene[];
+  // The job the canvas is currently following, if any
+  canvasJobId: string | null;
+  onOpen: (job: GenerationJob) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  // Runs a finished job again without using the result cache
+  onRegenerate: (id: string) => void;
+  onRemove: (id: string) => void;
+  onSaveToScene: (job: GenerationJob, sceneId: string) => Promise<void>;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-700 text-gray-300' },
+  running: { label: 'Running', className: 'bg-indigo-900/60 text-indigo-300' },
+  succeeded: { label: 'Done', className: 'bg-green-900/60 text-green-300' },
+  failed: { label: 'Failed', className: 'bg-red-900/60 text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-800 text-gray-500' },
+};
+
+const formatDuration = (job: GenerationJob) => {
+  if (!job.startedAt) return '';
+  const seconds = Math.round(((job.finishedAt ?? Date.now()) - job.startedAt) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const JobPreview: React.FC<{ job: GenerationJob }> = ({ job }) => {
+  if (job.result?.type === 'image') {
+    return <img src={job.result.url} alt={job.label} className="w-12 h-12 rounded object-cover flex-shrink-0" />;
+  }
+  return (
+    <div className="w-12 h-12 rounded bg-gray-800 flex items-center justify-center text-[10px] uppercase text-gray-500 flex-shrink-0">
+      {job.result ? job.result.type : isJobActive(job) ? '…' : '—'}
+    </div>
+  );
+};
+
+const JobRow: React.FC<Omit<JobsPanelProps, 'jobs' | 'onClearFinished' | 'onClose'> & { job: GenerationJob }> = ({
+  job, scenes, canvasJobId, onOpen, onCancel, onRetry, onRegenerate, onRemove, onSaveToScene,
+}) => {
+  const [targetSceneId, setTargetSceneId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { label, className } = STATUS_STYLES[job.status];
+
+  const handleSave = async () => {
+    if (!targetSceneId) return;
+    setIsSaving(true);
+    try {
+      await onSaveToScene(job, targetSceneId);
+      setTargetSceneId('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={`bg-gray-800/60 border rounded-lg p-2 ${canvasJobId === job.id ? 'border-indigo-500' : 'border-gray-700'}`}>
+      <div className="flex items-start gap-3">
+        <JobPreview job={job} />
+        <div className="min-w-0 flex-grow">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-semibold text-gray-200 truncate">{job.label}</p>
+            <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${className}`}>{label}</span>
+            {job.cacheHit && (
+              <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-900/60 text-amber-300" title="Served from the result cache">Cached</span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {new Date(job.createdAt).toLocaleTimeString()}
+            {job.startedAt && ` · ${formatDuration(job)}`}
+          </p>
+          {job.inputs.map(input => (
+            <p key={input.label} className="text-xs text-gray-400 truncate" title={input.value}>
+              <span className="text-gray-500">{input.label}:</span> {input.value}
+            </p>
+          ))}
+          {job.status === 'running' && job.progress && <p className="text-xs text-indigo-300 truncate">{job.progress}</p>}
+          {job.status === 'failed' && job.error && <p className="text-xs text-red-400 line-clamp-2" title={job.error.message}>{job.error.message}</p>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        {(job.status === 'succeeded' || isJobActive(job)) && (
+          <Button onClick={() => onOpen(job)} variant="secondary" className="px-3 py-1 text-xs">
+            {job.status === 'succeeded' ? 'Open in Canvas' : 'Watch'}
+          </Button>
+        )}
+        {isJobActive(job) && (
+          <Button onClick={() => onCancel(job.id)} variant="secondary" className="px-3 py-1 text-xs">Cancel</Button>
+        )}
+        {(job.status === 'failed' || job.status === 'cancelled') && (
+          <Button onClick={() => onRetry(job.id)} variant="secondary" className="px-3 py-1 text-xs">Retry</Button>
+        )}
+        {job.status === 'succeeded' && job.cacheHit && (
+          <Button onClick={() => onRegenerate(job.id)} variant="secondary" className="px-3 py-1 text-xs" title="Generate again instead of using the cached result">
+            Regenerate
+          </Button>
+        )}
+        {!isJobActive(job) && (
+          <Button onClick={() => onRemove(job.id)} variant="secondary" className="px-3 py-1 text-xs">Remove</Button>
+        )}
+        {job.status === 'succeeded' && (
+          <div className="flex items-center gap-1 ml-auto">
+            <select
+              value={targetSceneId}
+              onChange={(e) => setTargetSceneId(e.target.value)}
+              disabled={scenes.length === 0 || isSaving}
+              className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 max-w-[9rem] focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+              title={scenes.length === 0 ? 'Save a scene first' : 'Attach this result to a saved scene'}
+            >
+              <option value="">Save to scene...</option>
+              {scenes.map(scene => (
+                <option key={scene.id} value={scene.id}>{scene.name}</option>
+              ))}
+            </select>
+            <Button onClick={handleSave} disabled={!targetSceneId || isSaving} className="px-3 py-1 text-xs">
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Floating panel rather than a modal, so work can continue while jobs run
+export const JobsPanel: React.FC<JobsPanelProps> = ({ jobs, onClearFinished, onClose, ...rowProps }) => {
+  const activeCount = jobs.filter(isJobActive).length;
+
+  return (
+    <div className="fixed top-20 right-4 z-40 w-full max-w-md bg-gray-900 border border-gray-700 rounded-lg shadow-xl p-4 flex flex-col max-h-[75vh]">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold">Generation Jobs</h3>
+          <p className="text-xs text-gray-400">{activeCount} active · {jobs.length - activeCount} finished</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto pr-1 space-y-2">
+        {jobs.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No jobs yet. Generations you start will appear here.</p>
+        ) : (
+          jobs.map(job => <JobRow key={job.id} job={job} {...rowProps} />)
+        )}
+      </div>
+
+      {jobs.length > activeCount && (
+        <div className="mt-3 flex justify-end">
+          <Button onClick={onClearFinished} variant="secondary" className="px-3 py-1 text-xs">Clear Finished</Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useRef, useState } from 'react';
+import { PromptProfileIssue, formatProfileIssue } from '../utils/promptProfileUtils';
+import { TemplateSuggestion } from '../utils/promptTemplateUtils';
+
+interface PromptProfileFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  // From `parsePromptProfile` and `expandPromptTemplate`; lines they point at are highlighted
+  issues: PromptProfileIssue[];
+  placeholder?: string;
+  // Height of the field
+  className?: string;
+  // Font classes, shared by the text area and the highlight layer so their lines match up
+  textClassName?: string;
+  // Template variables offered after typing `{{`
+  suggestions?: TemplateSuggestion[];
+  // The input with its variables expanded, shown underneath when given
+  preview?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// The `{{` being typed right before the caret, if any
+const findOpenVariable = (value: string, caret: number): { start: number; query: string } | null => {
+  const match = /\{\{([^{}\n]*)$/.exec(value.slice(0, caret));
+  return match ? { start: match.index, query: match[1].trim().toLowerCase() } : null;
+};
+
+/**
+ * Text area for plain prompts or JSON prompt profiles. Lines with problems are highlighted by a
+ * layer rendered behind the transparent text area, and the problems are listed underneath.
+ */
+export const PromptProfileField: React.FC<PromptProfileFieldProps> = ({
+  value, onChange, issues, placeholder, className = 'h-32', textClassName = '', suggestions, preview,
+}) => {
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [openVariable, setOpenVariable] = useState<{ start: number; query: string } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const issueLines = new Set(issues.map(issue => issue.line));
+  const layout = `p-3 whitespace-pre-wrap break-words ${textClassName}`;
+
+  const matches = openVariable && suggestions
+    ? suggestions.filter(suggestion => suggestion.value.toLowerCase().includes(openVariable.query)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateOpenVariable = (textarea: HTMLTextAreaElement) => {
+    const next = suggestions ? findOpenVariable(textarea.value, textarea.selectionStart) : null;
+    if (next?.query !== openVariable?.query) setActiveIndex(0);
+    setOpenVariable(next);
+  };
+
+  // Replaces the partial variable with the full one, closing braces included, and puts the caret after it
+  const insertSuggestion = (suggestion: TemplateSuggestion) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !openVariable) return;
+    const caret = textarea.selectionStart;
+    const rest = value.slice(caret).replace(/^[^{}\n]*\}\}/, '');
+    const inserted = `{{${suggestion.value}}}`;
+    onChange(value.slice(0, openVariable.start) + inserted + rest);
+    setOpenVariable(null);
+    const nextCaret = openVariable.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertSuggestion(matches[Math.min(activeIndex, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setOpenVariable(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className={`relative bg-gray-800 rounded-md ${className}`}>
+        <div
+          ref={highlightRef}
+          aria-hidden="true"
+          className={`absolute inset-0 overflow-hidden border border-transparent text-transparent pointer-events-none ${layout}`}
+        >
+          {value.split('\n').map((line, index) => (
+            <div key={index} className={issueLines.has(index + 1) ? 'bg-red-500/25 rounded-sm' : ''}>{line || ' '}</div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          className={`absolute inset-0 w-full h-full bg-transparent border rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white placeholder-gray-500 resize-none ${layout} ${
+            issues.length > 0 ? 'border-red-500' : 'border-gray-700'
+          }`}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateOpenVariable(e.target);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateOpenVariable(e.currentTarget)}
+          onBlur={() => setOpenVariable(null)}
+          onScroll={(e) => {
+            if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+        />
+        {matches.length > 0 && (
+          <ul className="absolute left-2 right-2 top-full mt-1 z-30 bg-gray-900 border border-gray-700 rounded-md shadow-xl py-1 max-h-56 overflow-y-auto">
+            {matches.map((suggestion, index) => (
+              <li key={suggestion.value}>
+                <button
+                  type="button"
+                  // Keeps the text area focused so the caret position is still known
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    insertSuggestion(suggestion);
+                  }}
+                  className={`w-full text-left px-3 py-1.5 ${index === activeIndex ? 'bg-indigo-600/40' : 'hover:bg-gray-800'}`}
+                >
+                  <span className="block text-sm font-mono text-white">{`{{${suggestion.value}}}`}</span>
+                  <span className="block text-xs text-gray-400 truncate">{suggestion.detail}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {issues.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-red-400">
+          {issues.map((issue, index) => (
+            <li key={index}>{formatProfileIssue(issue)}</li>
+          ))}
+        </ul>
+      )}
+      {preview !== undefined && (
+        <div className="mt-2">
+          <p className="text-xs font-medium text-gray-400 mb-1">Preview</p>
+          <p className="text-xs text-gray-300 bg-gray-800/60 border border-gray-700 rounded-md p-2 max-h-32 overflow-y-auto whitespace-pre-wrap break-words">{preview}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Character, Scene, SceneRevision } from '../types';
+import { Button } from './common/Button';
+import { CloseIcon } from '../constants';
+
+interface RevisionHistoryProps {
+  scene: Scene;
+  characters: Character[];
+  onRestore: (revision: SceneRevision) => void;
+}
+
+const formatSavedAt = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const OutputPreview: React.FC<{ revision: SceneRevision; className?: string }> = ({ revision, className = '' }) => {
+  const content = revision.generatedContent;
+  if (content?.type === 'image' && content.url) {
+    return <img src={content.url} alt="Revision output" className={`object-cover rounded ${className}`} />;
+  }
+  return (
+    <div className={`bg-gray-800 rounded flex items-center justify-center text-[10px] uppercase text-gray-500 ${className}`}>
+      {content ? content.type : 'No output'}
+    </div>
+  );
+};
+
+const RevisionCompareModal: React.FC<{
+  revisions: [SceneRevision, SceneRevision];
+  characters: Character[];
+  onRestore: (revision: SceneRevision) => void;
+  onClose: () => void;
+}> = ({ revisions, characters, onRestore, onClose }) => {
+  const [left, right] = revisions;
+
+  const characterNames = (revision: SceneRevision) =>
+    revision.characterIds.map(id => characters.find(c => c.id === id)?.name || 'Deleted character').join(', ') || 'None';
+
+  const transforms = (revision: SceneRevision) =>
+    revision.characterIds.map(id => {
+      const name = characters.find(c => c.id === id)?.name || id.slice(0, 6);
+      const rotation = Math.round(revision.rotations?.[id] || 0);
+      const position = revision.positions?.[id];
+      return `${name}: ${rotation}°${position ? ` @ ${Math.round(position.x)}, ${Math.round(position.y)}` : ''}`;
+    }).join('\n') || 'None';
+
+  const rows: { label: string; value: (revision: SceneRevision) => string }[] = [
+    { label: 'Prompt', value: r => r.prompt },
+    { label: 'Characters (back to front)', value: characterNames },
+    { label: 'Transforms', value: transforms },
+    { label: 'Sound', value: r => r.soundEffect?.name || 'None' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-4xl p-6 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+        <h3 className="text-lg font-semibold mb-4">Compare Revisions</h3>
+
+        <div className="grid grid-cols-2 gap-4">
+          {[left, right].map(revision => (
+            <div key={revision.id} className="flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-300">{formatSavedAt(revision.savedAt)}</span>
+                <Button onClick={() => onRestore(revision)} variant="secondary" className="px-3 py-1 text-xs">
+                  Restore
+                </Button>
+              </div>
+              <OutputPreview revision={revision} className="w-full aspect-square" />
+            </div>
+          ))}
+
+          {rows.map(({ label, value }) => {
+            const [leftValue, rightValue] = [value(left), value(right)];
+            const changed = leftValue !== rightValue;
+            return (
+              <React.Fragment key={label}>
+                {[leftValue, rightValue].map((text, index) => (
+                  <div key={index}>
+                    <p className="text-xs uppercase font-bold text-gray-500 mb-1">
+                      {label} {changed && <span className="text-amber-400 normal-case font-normal">(changed)</span>}
+                    </p>
+                    <p className={`text-sm whitespace-pre-wrap ${changed ? 'text-amber-200' : 'text-gray-300'}`}>{text}</p>
+                  </div>
+                ))}
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ scene, characters, onRestore }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const revisions = [...(scene.revisions || [])].reverse(); // newest first
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(r => r !== id);
+      // Keep the most recent two picks
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const compared = compareIds
+    .map(id => revisions.find(r => r.id === id))
+    .filter((r): r is SceneRevision => r !== undefined)
+    .sort((a, b) => a.savedAt - b.savedAt);
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-gray-500 mt-2">No revisions yet. Save the scene to record one.</p>;
+  }
+
+  return (
+    <div className="mt-3 border-t border-gray-600 pt-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-xs font-bold uppercase text-gray-400">Revisions ({revisions.length})</h5>
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={compared.length !== 2}
+          className="text-xs text-indigo-400 hover:text-indigo-300 disabled:text-gray-600 disabled:cursor-not-allowed"
+          title="Select two revisions to compare"
+        >
+          Compare
+        </button>
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+        {revisions.map((revision, index) => (
+          <div key={revision.id} className="flex items-center gap-2 bg-gray-800/60 rounded p-1.5">
+            <input
+              type="checkbox"
+              checked={compareIds.includes(revision.id)}
+              onChange={() => toggleCompare(revision.id)}
+              className="accent-indigo-500"
+              title="Select for comparison"
+            />
+            <OutputPreview revision={revision} className="w-8 h-8 flex-shrink-0" />
+            <div className="min-w-0 flex-grow">
+              <p className="text-[11px] text-gray-300">
+                {formatSavedAt(revision.savedAt)}{index === 0 && <span className="text-indigo-400"> · latest</span>}
+              </p>
+              <p className="text-[11px] text-gray-500 truncate" title={revision.prompt}>{revision.prompt}</p>
+            </div>
+            <button
+              onClick={() => onRestore(revision)}
+              className="text-[11px] text-gray-300 hover:text-white bg-gray-700 hover:bg-indigo-600 rounded px-1.5 py-0.5"
+              title="Load this revision into the Scene Builder"
+            >
+              Restore
+            </button>
+          </div>
+        ))}
+      </div>
+      {isComparing && compared.length === 2 && (
+        <RevisionCompareModal
+          revisions={[compared[0], compared[1]]}
+          characters={characters}
+          onRestore={(revision) => { setIsComparing(false); onRestore(revision); }}
+          onClose={() => setIsComparing(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Button } from './common/Button';
+import { CloseIcon } from '../constants';
+
+export interface SceneConflict {
+  sceneId: string;
+  sceneName: string;
+  // The open scene was deleted in the other tab rather than saved
+  deleted: boolean;
+}
+
+interface SceneConflictBannerProps {
+  conflict: SceneConflict;
+  onLoadTheirs: () => void;
+  onKeepMine: () => void;
+}
+
+export const SceneConflictBanner: React.FC<SceneConflictBannerProps> = ({ conflict, onLoadTheirs, onKeepMine }) => (
+  <div className="flex items-center gap-3 px-4 py-2 bg-amber-900/60 border-b border-amber-700 text-sm text-amber-100">
+    <p className="flex-grow">
+      {conflict.deleted
+        ? <>"{conflict.sceneName}" was deleted in another tab. Your edits are kept here; saving will create a new scene.</>
+        : <>"{conflict.sceneName}" was saved in another tab. Keep your version to overwrite it on your next save (theirs stays in the revision history), or load theirs to discard your edits.</>}
+    </p>
+    {!conflict.deleted && (
+      <>
+        <Button onClick={onLoadTheirs} variant="secondary" className="px-3 py-1 text-xs">Load Theirs</Button>
+        <Button onClick={onKeepMine} className="px-3 py-1 text-xs">Keep Mine</Button>
+      </>
+    )}
+    {conflict.deleted && (
+      <button onClick={onKeepMine} className="text-amber-200 hover:text-white" title="Dismiss">
+        <CloseIcon className="w-5 h-5" />
+      </button>
+    )}
+  </div>
+);
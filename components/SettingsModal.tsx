@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon, MODEL_OPTIONS, ModelCapability } from '../constants';
+import { Button } from './common/Button';
+import { AppSettings, CANDIDATE_COUNT_OPTIONS, JOB_CONCURRENCY_OPTIONS, RESULT_CACHE_LIMIT_OPTIONS } from '../utils/settingsUtils';
+import { UsagePeriod } from '../utils/usageUtils';
+import { clearResultCache, getResultCacheUsage } from '../services/storageService';
+import { formatBytes } from '../utils/fileUtils';
+import { PROVIDER_OPTIONS } from '../services/generationService';
+import { testApiKey } from '../services/geminiService';
+import { toGenerationError } from '../services/generationErrors';
+
+interface SettingsModalProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const MODEL_CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  IMAGE_GENERATION: 'Image generation',
+  IMAGE_EDITING: 'Scenes & editing',
+  VIDEO_GENERATION: 'Video',
+  DESCRIPTION_GENERATION: 'Character descriptions',
+  TTS: 'Speech',
+};
+
+type KeyTest = { status: 'testing' } | { status: 'ok'; unavailable: string[] } | { status: 'failed'; message: string };
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onChange, onClose }) => {
+  const [cacheUsage, setCacheUsage] = useState<{ entries: number; bytes: number } | null>(null);
+  const [showKey, setShowKey] = useState(false);
+  const [keyTest, setKeyTest] = useState<KeyTest | null>(null);
+
+  useEffect(() => {
+    getResultCacheUsage().then(setCacheUsage).catch(e => console.error("Failed to read result cache usage", e));
+  }, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearResultCache();
+      setCacheUsage({ entries: 0, bytes: 0 });
+    } catch (e) {
+      console.error("Failed to clear result cache", e);
+      alert("Failed to clear the result cache.");
+    }
+  };
+
+  // Tests the key being entered, or the built-in one when the field is empty
+  const handleTestKey = async () => {
+    const apiKey = settings.apiKey.trim() || process.env.API_KEY;
+    if (!apiKey) {
+      setKeyTest({ status: 'failed', message: 'Enter a key to test.' });
+      return;
+    }
+    setKeyTest({ status: 'testing' });
+    try {
+      setKeyTest({ status: 'ok', unavailable: await testApiKey(apiKey, Object.values(settings.models)) });
+    } catch (e) {
+      setKeyTest({ status: 'failed', message: toGenerationError(e).message });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-lg p-6 relative flex flex-col max-h-[90vh]">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+        <h3 className="text-lg font-semibold mb-4">Settings</h3>
+
+        <div className="flex-grow overflow-y-auto pr-2 space-y-5">
+          <section>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Generation Provider</h4>
+            <div className="space-y-2">
+              {PROVIDER_OPTIONS.map(option => (
+                <label
+                  key={option.id}
+                  className={`flex gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    settings.provider === option.id ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-700 bg-gray-800/60 hover:border-gray-500'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="provider"
+                    checked={settings.provider === option.id}
+                    onChange={() => onChange({ ...settings, provider: option.id })}
+                    className="accent-indigo-500 mt-1"
+                  />
+                  <div>
+                    <p className="text-sm font-semibold text-white">{option.label}</p>
+                    <p className="text-xs text-gray-400">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Gemini API Key</h4>
+            <div className="p-3 rounded-lg border border-gray-700 bg-gray-800/60 space-y-2">
+              <p className="text-xs text-gray-400">
+                Stored in this browser only. Leave empty to use the key the app was built with. Video generation needs a key with billing enabled.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type={showKey ? 'text' : 'password'}
+                  value={settings.apiKey}
+                  onChange={(e) => {
+                    onChange({ ...settings, apiKey: e.target.value });
+                    setKeyTest(null);
+                  }}
+                  placeholder={process.env.API_KEY ? 'Using the built-in key' : 'Paste your API key'}
+                  autoComplete="off"
+                  spellCheck={false}
+                  className="flex-grow min-w-0 bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-200 font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                />
+                <Button onClick={() => setShowKey(show => !show)} variant="secondary" className="px-3 py-1 text-xs">
+                  {showKey ? 'Hide' : 'Show'}
+                </Button>
+                <Button onClick={handleTestKey} variant="secondary" className="px-3 py-1 text-xs" disabled={keyTest?.status === 'testing'}>
+                  {keyTest?.status === 'testing' ? 'Testing...' : 'Test'}
+                </Button>
+              </div>
+              {keyTest?.status === 'ok' && (
+                <p className={`text-xs ${keyTest.unavailable.length > 0 ? 'text-amber-300' : 'text-green-400'}`}>
+                  {keyTest.unavailable.length > 0
+                    ? `The key works, but it has no access to ${keyTest.unavailable.join(', ')}.`
+                    : 'The key works with all selected models.'}
+                </p>
+              )}
+              {keyTest?.status === 'failed' && <p className="text-xs text-red-400">{keyTest.message}</p>}
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Models</h4>
+            <div className="p-3 rounded-lg border border-gray-700 bg-gray-800/60 space-y-2">
+              {(Object.keys(MODEL_CAPABILITY_LABELS) as ModelCapability[]).map(capability => (
+                <div key={capability} className="flex items-center justify-between gap-4">
+                  <label htmlFor={`model-${capability}`} className="text-sm text-gray-300">{MODEL_CAPABILITY_LABELS[capability]}</label>
+                  <select
+                    id={`model-${capability}`}
+                    value={settings.models[capability]}
+                    onChange={(e) => {
+                      onChange({ ...settings, models: { ...settings.models, [capability]: e.target.value } });
+                      setKeyTest(null);
+                    }}
+                    className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  >
+                    {MODEL_OPTIONS[capability].map(model => (
+                      <option key={model} value={model}>{model}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">Used by the Gemini provider. Usage cost estimates assume the default models.</p>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Image Candidates</h4>
+            <label className="flex items-center justify-between gap-4 p-3 rounded-lg border border-gray-700 bg-gray-800/60">
+              <div>
+                <p className="text-sm font-semibold text-white">Images per generation</p>
+                <p className="text-xs text-gray-400">Characters, images and scenes come with alternatives to pick from. Each one counts against your quota.</p>
+              </div>
+              <select
+                value={settings.candidateCount}
+                onChange={(e) => onChange({ ...settings, candidateCount: Number(e.target.value) })}
+                className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              >
+                {CANDIDATE_COUNT_OPTIONS.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </label>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Spending Limits</h4>
+            <div className="p-3 rounded-lg border border-gray-700 bg-gray-800/60 space-y-3">
+              <p className="text-xs text-gray-400">
+                Checked against the estimated cost in the usage view before each scene or video. Leave a limit at 0 to turn it off.
+              </p>
+              <div className="flex items-center justify-between gap-4">
+                <label htmlFor="limit-period" className="text-sm text-gray-300">Limits apply per</label>
+                <select
+                  id="limit-period"
+                  value={settings.usageLimitPeriod}
+                  onChange={(e) => onChange({ ...settings, usageLimitPeriod: e.target.value as UsagePeriod })}
+                  className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                >
+                  <option value="day">Day</option>
+                  <option value="week">Week</option>
+                </select>
+              </div>
+              {([
+                ['usageSoftLimitUsd', 'Soft limit', 'Warns before generating'],
+                ['usageHardLimitUsd', 'Hard limit', 'Refuses to generate'],
+              ] as const).map(([key, label, detail]) => (
+                <div key={key} className="flex items-center justify-between gap-4">
+                  <label htmlFor={key} className="text-sm text-gray-300">
+                    {label} <span className="text-xs text-gray-500">{detail}</span>
+                  </label>
+                  <div className="flex items-center gap-1 text-gray-400">
+                    $
+                    <input
+                      id={key}
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={settings[key]}
+                      onChange={(e) => onChange({ ...settings, [key]: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-20 bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Background Jobs</h4>
+            <label className="flex items-center justify-between gap-4 p-3 rounded-lg border border-gray-700 bg-gray-800/60">
+              <div>
+                <p className="text-sm font-semibold text-white">Parallel generations</p>
+                <p className="text-xs text-gray-400">Further jobs wait in the queue. Lower this if you hit rate limits.</p>
+              </div>
+              <select
+                value={settings.jobConcurrency}
+                onChange={(e) => onChange({ ...settings, jobConcurrency: Number(e.target.value) })}
+                className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              >
+                {JOB_CONCURRENCY_OPTIONS.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </label>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Result Cache</h4>
+            <div className="p-3 rounded-lg border border-gray-700 bg-gray-800/60 space-y-3">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.resultCache}
+                  onChange={(e) => onChange({ ...settings, resultCache: e.target.checked })}
+                  className="accent-indigo-500 mt-1"
+                />
+                <div>
+                  <p className="text-sm font-semibold text-white">Reuse results for identical inputs</p>
+                  <p className="text-xs text-gray-400">
+                    Scenes, images, edits and speech generated again with the same prompt, images and settings are
+                    served from local storage. Use Regenerate in the jobs panel to get a fresh result.
+                  </p>
+                </div>
+              </label>
+              <div className="flex items-center justify-between gap-4">
+                <label htmlFor="cache-limit" className="text-sm text-gray-300">Size limit</label>
+                <select
+                  id="cache-limit"
+                  value={settings.resultCacheLimitMb}
+                  onChange={(e) => onChange({ ...settings, resultCacheLimitMb: Number(e.target.value) })}
+                  className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                >
+                  {RESULT_CACHE_LIMIT_OPTIONS.map(value => (
+                    <option key={value} value={value}>{value} MB</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-gray-400">
+                  {cacheUsage ? `${cacheUsage.entries} result(s), ${formatBytes(cacheUsage.bytes)}` : 'Reading usage...'}
+                </p>
+                <Button onClick={handleClearCache} variant="secondary" className="px-3 py-1 text-xs" disabled={!cacheUsage?.entries}>
+                  Clear Cache
+                </Button>
+              </div>
+            </div>
+          </section>
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
 
 import React, { useState } from 'react';
-import { Character, Scene } from '../types';
+import { Character, Scene, SceneBundle, SceneRevision } from '../types';
 import { Button } from './common/Button';
-import { AddUserIcon, CollectionIcon, SceneIcon, TrashIcon, ImportIcon, ExportIcon } from '../constants';
+import { AddUserIcon, CollectionIcon, SceneIcon, TrashIcon, ImportIcon, ExportIcon, ClockIcon, Squares2x2Icon } from '../constants';
 import { downloadJson, readJsonFile } from '../utils/fileUtils';
+import { PAYLOAD_FORMATS, SchemaError, isValidCharacter, isValidScene, isValidSceneBundle, unwrapPayload, wrapPayload } from '../utils/schemaUtils';
+import { createSceneBundle } from '../services/bundleService';
+import { RevisionHistory } from './RevisionHistory';
 
 interface SidebarProps {
   characters: Character[];
@@ -13,9 +16,13 @@ interface SidebarProps {
   onImportCharacter: (character: Character) => void;
   onImportLibrary: (characters: Character[]) => void;
   onDeleteCharacter: (id: string) => void;
+  // Opens the character in the creator to edit its name and reference views
+  onEditCharacter: (id: string) => void;
   scenes: Scene[];
   onSceneSelect: (scene: Scene) => void;
+  onRestoreRevision: (scene: Scene, revision: SceneRevision) => void;
   onImportScene: (scene: Scene) => void;
+  onImportSceneBundle: (bundle: SceneBundle) => Promise<void>;
   onSceneDelete: (id: string) => void;
 }
 
@@ -24,10 +31,11 @@ const CharacterCard: React.FC<{
   isSelected: boolean;
   onSelect: () => void;
   onDelete: () => void;
-}> = ({ character, isSelected, onSelect, onDelete }) => {
+  onEdit: () => void;
+}> = ({ character, isSelected, onSelect, onDelete, onEdit }) => {
   const handleExport = (e: React.MouseEvent) => {
     e.stopPropagation();
-    downloadJson(character, `character-${character.name.replace(/\s+/g, '_')}.json`);
+    downloadJson(wrapPayload(PAYLOAD_FORMATS.CHARACTER, character), `character-${character.name.replace(/\s+/g, '_')}.json`);
   };
 
   return (
@@ -41,6 +49,14 @@ const CharacterCard: React.FC<{
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black to-transparent p-2">
         <p className="text-white font-semibold text-sm truncate pr-6">{character.name}</p>
       </div>
+      {character.references && character.references.length > 0 && (
+        <span
+          className="absolute top-1 left-1 bg-gray-900/80 text-gray-300 text-[10px] px-1.5 py-0.5 rounded"
+          title="Reference views, front included"
+        >
+          {character.references.length + 1} views
+        </span>
+      )}
       <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
         <button
           onClick={handleExport}
@@ -49,6 +65,13 @@ const CharacterCard: React.FC<{
         >
           <ExportIcon className="w-3.5 h-3.5" />
         </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onEdit(); }}
+          className="bg-gray-900/80 p-1 rounded-full text-gray-300 hover:text-white"
+          title="Edit Reference Views"
+        >
+          <Squares2x2Icon className="w-3.5 h-3.5" />
+        </button>
         <button
           onClick={(e) => { e.stopPropagation(); onDelete(); }}
           className="bg-gray-900/80 p-1 rounded-full text-gray-300 hover:text-red-400"
@@ -63,25 +86,49 @@ const CharacterCard: React.FC<{
 
 const SceneCard: React.FC<{
   scene: Scene;
+  characters: Character[];
   onSelect: () => void;
   onDelete: () => void;
-}> = ({ scene, onSelect, onDelete }) => {
-  const handleExport = (e: React.MouseEvent) => {
+  onRestoreRevision: (revision: SceneRevision) => void;
+}> = ({ scene, characters, onSelect, onDelete, onRestoreRevision }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleExport = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    downloadJson(scene, `scene-${scene.name.replace(/\s+/g, '_')}.json`);
+    try {
+      // Export as a bundle so the scene carries its characters, sound and generated output
+      const bundle = await createSceneBundle(scene, characters);
+      downloadJson(wrapPayload(PAYLOAD_FORMATS.SCENE_BUNDLE, bundle), `scene-${scene.name.replace(/\s+/g, '_')}.json`);
+    } catch (err) {
+      console.error("Failed to export scene", err);
+      alert("Failed to export scene.");
+    }
   };
 
   return (
     <div className="bg-gray-700/50 rounded-lg p-3 border border-gray-600 hover:bg-gray-700 transition-colors group relative">
       <div onClick={onSelect} className="cursor-pointer">
-        <h4 className="font-semibold text-white text-sm mb-1 pr-6">{scene.name}</h4>
+        <h4 className="font-semibold text-white text-sm mb-1 pr-16">{scene.name}</h4>
         <p className="text-xs text-gray-400 line-clamp-2 italic">"{scene.prompt}"</p>
         <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
            <span className="bg-gray-800 px-1.5 py-0.5 rounded">{scene.characterIds.length} chars</span>
+           {scene.revisions && scene.revisions.length > 1 && (
+             <span className="bg-gray-800 px-1.5 py-0.5 rounded">{scene.revisions.length} revisions</span>
+           )}
            <span>{new Date(scene.createdAt).toLocaleDateString()}</span>
         </div>
       </div>
+      {showHistory && (
+        <RevisionHistory scene={scene} characters={characters} onRestore={onRestoreRevision} />
+      )}
       <div className="absolute top-2 right-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+         <button 
+            onClick={(e) => { e.stopPropagation(); setShowHistory(prev => !prev); }}
+            className={`p-1 hover:text-white ${showHistory ? 'text-indigo-400' : 'text-gray-500'}`}
+            title="Revision History"
+         >
+            <ClockIcon className="w-4 h-4" />
+         </button>
          <button 
             onClick={handleExport}
             className="p-1 text-gray-500 hover:text-white"
@@ -109,9 +156,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onImportCharacter,
   onImportLibrary,
   onDeleteCharacter,
+  onEditCharacter,
   scenes,
   onSceneSelect,
+  onRestoreRevision,
   onImportScene,
+  onImportSceneBundle,
   onSceneDelete
 }) => {
   const [activeTab, setActiveTab] = useState<'CHARACTERS' | 'SCENES'>('CHARACTERS');
@@ -124,19 +174,32 @@ export const Sidebar: React.FC<SidebarProps> = ({
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         try {
-          const data = await readJsonFile(file);
+          const raw = await readJsonFile(file);
           if (type === 'character') {
-             if (Array.isArray(data)) {
+             const { format, data } = unwrapPayload(raw, [PAYLOAD_FORMATS.CHARACTER, PAYLOAD_FORMATS.CHARACTER_LIBRARY]);
+             if (format === PAYLOAD_FORMATS.CHARACTER_LIBRARY) {
                  // Library Import
-                 onImportLibrary(data);
-             } else if (data.id && data.name && data.imageUrl) {
+                 const incoming = Array.isArray(data) ? data : [];
+                 const valid = incoming.filter(isValidCharacter);
+                 if (valid.length === 0) {
+                     alert("Invalid character library file.");
+                     return;
+                 }
+                 if (valid.length < incoming.length) {
+                     alert(`Skipped ${incoming.length - valid.length} invalid character(s).`);
+                 }
+                 onImportLibrary(valid);
+             } else if (isValidCharacter(data)) {
                  // Single Character Import
                  onImportCharacter(data);
              } else {
                 alert("Invalid character file.");
              }
           } else {
-             if (data.id && data.name && Array.isArray(data.characterIds)) {
+             const { format, data } = unwrapPayload(raw, [PAYLOAD_FORMATS.SCENE, PAYLOAD_FORMATS.SCENE_BUNDLE]);
+             if (format === PAYLOAD_FORMATS.SCENE_BUNDLE && isValidSceneBundle(data)) {
+                await onImportSceneBundle(data);
+             } else if (format === PAYLOAD_FORMATS.SCENE && isValidScene(data)) {
                 onImportScene(data);
              } else {
                 alert("Invalid scene file.");
@@ -144,7 +207,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
           }
         } catch (err) {
           console.error("Failed to parse file", err);
-          alert("Failed to read file.");
+          alert(err instanceof SchemaError ? err.message : "Failed to read file.");
         }
       }
     };
@@ -153,7 +216,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
   const handleExportLibrary = () => {
       if (characters.length === 0) return;
-      downloadJson(characters, 'character_library.json');
+      downloadJson(wrapPayload(PAYLOAD_FORMATS.CHARACTER_LIBRARY, characters), 'character_library.json');
   };
 
   return (
@@ -210,6 +273,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     isSelected={selectedCharacterIds.includes(char.id)}
                     onSelect={() => onCharacterSelect(char.id)}
                     onDelete={() => onDeleteCharacter(char.id)}
+                    onEdit={() => onEditCharacter(char.id)}
                   />
                 ))}
               </div>
@@ -231,8 +295,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
                    <SceneCard 
                      key={scene.id} 
                      scene={scene} 
+                     characters={characters}
                      onSelect={() => onSceneSelect(scene)}
                      onDelete={() => onSceneDelete(scene.id)}
+                     onRestoreRevision={(revision) => onRestoreRevision(scene, revision)}
                    />
                  ))}
                </div>
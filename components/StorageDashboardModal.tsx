@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Character, Scene, SoundEffect } from '../types';
+import { Button } from './common/Button';
+import { Loader } from './common/Loader';
+import { CloseIcon } from '../constants';
+import { StorageCategory, StorageReport, getStorageReport } from '../services/storageService';
+import { CleanupPlan, findDanglingReferences, findUnusedSounds } from '../utils/cleanupUtils';
+import { formatBytes } from '../utils/fileUtils';
+
+interface StorageDashboardModalProps {
+  characters: Character[];
+  scenes: Scene[];
+  soundLibrary: SoundEffect[];
+  // Referenced by the Scene Builder rather than by anything stored
+  inUseAssetIds: string[];
+  inUseSoundIds: string[];
+  onCollect: (plan: CleanupPlan) => Promise<void>;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<StorageCategory, string> = {
+  characters: 'Characters',
+  scenes: 'Scenes & revisions',
+  sounds: 'Sounds',
+  autosaves: 'Autosaves',
+};
+
+const CleanupOption: React.FC<{
+  checked: boolean;
+  onChange: () => void;
+  label: React.ReactNode;
+  detail?: string;
+}> = ({ checked, onChange, label, detail }) => (
+  <label className="flex items-center gap-2 text-sm text-gray-300 py-1 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={onChange} className="accent-indigo-500" />
+    <span className="flex-grow min-w-0 truncate">{label}</span>
+    {detail && <span className="text-xs text-gray-500">{detail}</span>}
+  </label>
+);
+
+export const StorageDashboardModal: React.FC<StorageDashboardModalProps> = ({
+  characters,
+  scenes,
+  soundLibrary,
+  inUseAssetIds,
+  inUseSoundIds,
+  onCollect,
+  onClose,
+}) => {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<StorageCategory | null>(null);
+  const [plan, setPlan] = useState<CleanupPlan | null>(null);
+  const [isCollecting, setIsCollecting] = useState(false);
+
+  const dangling = findDanglingReferences(scenes, characters);
+  const unusedSounds = findUnusedSounds(soundLibrary, scenes, inUseSoundIds);
+
+  // Measured on open and after each clean-up, with the in-use ids from when the panel opened
+  const refresh = useCallback(async () => {
+    try {
+      setReport(await getStorageReport(inUseAssetIds));
+      setError(null);
+    } catch (e) {
+      console.error("Failed to measure storage", e);
+      setError("Failed to read storage usage.");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Unreferenced files and dangling references are safe to remove; unused sounds may still be wanted.
+  const startCleanup = () => {
+    if (!report) return;
+    setPlan({
+      assetIds: report.orphanedAssets.map(asset => asset.id),
+      sceneIds: dangling.map(ref => ref.scene.id),
+      soundIds: [],
+    });
+  };
+
+  const toggle = (key: keyof CleanupPlan, id: string) => {
+    setPlan(prev => prev && {
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter(item => item !== id) : [...prev[key], id],
+    });
+  };
+
+  const selectedCount = plan ? plan.assetIds.length + plan.sceneIds.length + plan.soundIds.length : 0;
+
+  const handleCollect = async () => {
+    if (!plan) return;
+    setIsCollecting(true);
+    try {
+      await onCollect(plan);
+      setPlan(null);
+      await refresh();
+    } catch (e) {
+      console.error("Failed to clean up storage", e);
+      setError("Failed to clean up storage.");
+    } finally {
+      setIsCollecting(false);
+    }
+  };
+
+  const orphanedBytes = report?.orphanedAssets.reduce((sum, asset) => sum + asset.bytes, 0) || 0;
+  const issueCount = (report?.orphanedAssets.length || 0) + dangling.length + unusedSounds.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-2xl p-6 relative flex flex-col max-h-[90vh]">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+        <h3 className="text-lg font-semibold mb-4">Storage</h3>
+
+        {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+        {!report && !error && <Loader message="Measuring storage..." />}
+
+        {report && (
+          <div className="flex-grow overflow-y-auto pr-2 space-y-5">
+            {report.estimate && report.estimate.quota > 0 && (
+              <div>
+                <p className="text-sm text-gray-300 mb-1">
+                  Using {formatBytes(report.estimate.usage)} of {formatBytes(report.estimate.quota)} available to this site
+                </p>
+                <div className="h-2 bg-gray-800 rounded">
+                  <div
+                    className="h-2 bg-indigo-500 rounded"
+                    style={{ width: `${Math.min(100, (report.estimate.usage / report.estimate.quota) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              {(Object.keys(CATEGORY_LABELS) as StorageCategory[]).map(category => {
+                const items = report.items.filter(item => item.category === category);
+                const isExpanded = expanded === category;
+                return (
+                  <div key={category} className="bg-gray-800/60 rounded-md">
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : category)}
+                      className="w-full flex justify-between items-center px-3 py-2 text-sm text-left hover:bg-gray-800 rounded-md"
+                    >
+                      <span className="text-gray-200">{isExpanded ? '▾' : '▸'} {CATEGORY_LABELS[category]} <span className="text-gray-500">({items.length})</span></span>
+                      <span className="text-gray-300">{formatBytes(report.totals[category])}</span>
+                    </button>
+                    {isExpanded && (
+                      <div className="px-3 pb-2 space-y-0.5">
+                        {items.length === 0 && <p className="text-xs text-gray-500">Nothing stored.</p>}
+                        {items.map(item => (
+                          <div key={item.id} className="flex justify-between text-xs text-gray-400">
+                            <span className="truncate pr-4">{item.label}</span>
+                            <span>{formatBytes(item.bytes)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              <div className="flex justify-between px-3 py-2 text-sm">
+                <span className="text-gray-200">Unreferenced files <span className="text-gray-500">({report.orphanedAssets.length})</span></span>
+                <span className={orphanedBytes > 0 ? 'text-amber-300' : 'text-gray-300'}>{formatBytes(orphanedBytes)}</span>
+              </div>
+              <p className="text-[11px] text-gray-500 px-3">Media shared by several items is counted for each of them.</p>
+            </div>
+
+            <div>
+              <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Issues ({issueCount})</h4>
+              {issueCount === 0 && <p className="text-sm text-gray-500">No orphaned files or broken references.</p>}
+              {!plan && (
+                <ul className="space-y-1 text-sm text-gray-300">
+                  {report.orphanedAssets.length > 0 && (
+                    <li>{report.orphanedAssets.length} stored file(s) are no longer used by anything ({formatBytes(orphanedBytes)}).</li>
+                  )}
+                  {dangling.map(({ scene, missingIds }) => (
+                    <li key={scene.id}>Scene "{scene.name}" references {missingIds.length} deleted character(s).</li>
+                  ))}
+                  {unusedSounds.length > 0 && (
+                    <li>{unusedSounds.length} sound(s) in the library are not used by any scene: {unusedSounds.map(s => s.name).join(', ')}.</li>
+                  )}
+                </ul>
+              )}
+
+              {plan && (
+                <div className="bg-gray-800/60 border border-gray-700 rounded-md p-3">
+                  <p className="text-xs text-gray-400 mb-2">The selected items will be permanently removed.</p>
+                  {report.orphanedAssets.map(asset => (
+                    <CleanupOption
+                      key={asset.id}
+                      checked={plan.assetIds.includes(asset.id)}
+                      onChange={() => toggle('assetIds', asset.id)}
+                      label={<>Unreferenced file <span className="text-gray-500">{asset.id}</span></>}
+                      detail={formatBytes(asset.bytes)}
+                    />
+                  ))}
+                  {dangling.map(({ scene, missingIds }) => (
+                    <CleanupOption
+                      key={scene.id}
+                      checked={plan.sceneIds.includes(scene.id)}
+                      onChange={() => toggle('sceneIds', scene.id)}
+                      label={`Remove ${missingIds.length} deleted character(s) from "${scene.name}"`}
+                    />
+                  ))}
+                  {unusedSounds.map(sound => (
+                    <CleanupOption
+                      key={sound.id}
+                      checked={plan.soundIds.includes(sound.id)}
+                      onChange={() => toggle('soundIds', sound.id)}
+                      label={`Delete unused sound "${sound.name}"`}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-4 flex justify-end gap-2">
+          {plan ? (
+            <>
+              <Button onClick={() => setPlan(null)} variant="secondary" disabled={isCollecting}>Back</Button>
+              <Button onClick={handleCollect} variant="danger" disabled={selectedCount === 0 || isCollecting}>
+                {isCollecting ? 'Removing...' : `Remove ${selectedCount} Item${selectedCount === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button onClick={onClose} variant="secondary">Close</Button>
+              <Button onClick={startCleanup} disabled={!report || issueCount === 0}>Clean Up...</Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
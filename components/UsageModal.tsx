@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Button } from './common/Button';
+import { CloseIcon } from '../constants';
+import { AppSettings } from '../utils/settingsUtils';
+import { USAGE_TOOL_LABELS, UsagePeriod, UsageTool, clearUsage, formatCost, loadUsage, periodStart, sumUsage, summarizeUsage } from '../utils/usageUtils';
+
+interface UsageModalProps {
+  settings: AppSettings;
+  onClose: () => void;
+}
+
+// Days or weeks shown in the table
+const PERIOD_COUNTS: Record<UsagePeriod, number> = { day: 7, week: 8 };
+
+const formatPeriod = (period: UsagePeriod, start: number) => {
+  const date = new Date(start);
+  if (period === 'day') return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  return `Week of ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+};
+
+const LimitBar: React.FC<{ spentUsd: number; softUsd: number; hardUsd: number }> = ({ spentUsd, softUsd, hardUsd }) => {
+  const scale = Math.max(hardUsd, softUsd, spentUsd);
+  const color = hardUsd > 0 && spentUsd >= hardUsd ? 'bg-red-500' : softUsd > 0 && spentUsd >= softUsd ? 'bg-amber-500' : 'bg-indigo-500';
+  return (
+    <div className="relative h-2 bg-gray-800 rounded">
+      <div className={`h-2 rounded ${color}`} style={{ width: `${scale > 0 ? Math.min(100, (spentUsd / scale) * 100) : 0}%` }} />
+      {softUsd > 0 && softUsd < scale && (
+        <div className="absolute -top-1 h-4 w-0.5 bg-amber-300" style={{ left: `${(softUsd / scale) * 100}%` }} title={`Soft limit ${formatCost(softUsd)}`} />
+      )}
+    </div>
+  );
+};
+
+export const UsageModal: React.FC<UsageModalProps> = ({ settings, onClose }) => {
+  const [period, setPeriod] = useState<UsagePeriod>(settings.usageLimitPeriod);
+  const [entries, setEntries] = useState(loadUsage);
+
+  const rows = summarizeUsage(entries, period, PERIOD_COUNTS[period]);
+  const shownEntries = entries.filter(entry => entry.timestamp >= rows[rows.length - 1].start);
+  const tools = (Object.keys(USAGE_TOOL_LABELS) as UsageTool[])
+    .map(tool => ({ tool, totals: sumUsage(shownEntries.filter(entry => entry.tool === tool)) }))
+    .filter(({ totals }) => totals.requests > 0);
+
+  const { usageLimitPeriod, usageSoftLimitUsd, usageHardLimitUsd } = settings;
+  const hasLimits = usageSoftLimitUsd > 0 || usageHardLimitUsd > 0;
+  const limitSpent = sumUsage(entries.filter(entry => entry.timestamp >= periodStart(usageLimitPeriod, Date.now()))).costUsd;
+
+  const handleClear = () => {
+    clearUsage();
+    setEntries([]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-2xl p-6 relative flex flex-col max-h-[90vh]">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+        <h3 className="text-lg font-semibold mb-1">API Usage</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          Requests made from this browser. Costs are estimates from list prices; check your billing console for actual charges.
+        </p>
+
+        <div className="flex-grow overflow-y-auto pr-2 space-y-5">
+          <div>
+            {hasLimits ? (
+              <>
+                <p className="text-sm text-gray-300 mb-1">
+                  {formatCost(limitSpent)} spent {usageLimitPeriod === 'day' ? 'today' : 'this week'}
+                  {usageSoftLimitUsd > 0 && <span className="text-gray-500"> · warning at {formatCost(usageSoftLimitUsd)}</span>}
+                  {usageHardLimitUsd > 0 && <span className="text-gray-500"> · blocked at {formatCost(usageHardLimitUsd)}</span>}
+                </p>
+                <LimitBar spentUsd={limitSpent} softUsd={usageSoftLimitUsd} hardUsd={usageHardLimitUsd} />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">No spending limits set. Add them in Settings.</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-bold uppercase text-gray-400">Totals</h4>
+              <div className="flex gap-1 bg-gray-800 p-1 rounded-lg">
+                {(['day', 'week'] as UsagePeriod[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setPeriod(option)}
+                    className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${period === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {option === 'day' ? 'Daily' : 'Weekly'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-right">
+                  <th className="text-left font-medium py-1">{period === 'day' ? 'Day' : 'Week'}</th>
+                  <th className="font-medium">Requests</th>
+                  <th className="font-medium">Images</th>
+                  <th className="font-medium">Video</th>
+                  <th className="font-medium">Speech</th>
+                  <th className="font-medium">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ start, totals }) => (
+                  <tr key={start} className={`border-t border-gray-800 text-right ${totals.requests === 0 ? 'text-gray-600' : 'text-gray-300'}`}>
+                    <td className="text-left py-1.5">{formatPeriod(period, start)}</td>
+                    <td>{totals.requests}</td>
+                    <td>{totals.images}</td>
+                    <td>{totals.videoSeconds}s</td>
+                    <td>{totals.ttsCharacters.toLocaleString()} chars</td>
+                    <td className="text-white">{formatCost(totals.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">By Tool</h4>
+            {tools.length === 0 && <p className="text-sm text-gray-500">No requests in this range.</p>}
+            <div className="space-y-1">
+              {tools.map(({ tool, totals }) => {
+                const models = Array.from(new Set(shownEntries.filter(entry => entry.tool === tool).map(entry => entry.model)));
+                return (
+                  <div key={tool} className="flex justify-between items-center bg-gray-800/60 rounded-md px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-gray-200">{USAGE_TOOL_LABELS[tool]} <span className="text-gray-500">({totals.requests})</span></p>
+                      <p className="text-xs text-gray-500 truncate">{models.join(', ')}</p>
+                    </div>
+                    <span className="text-gray-300">{formatCost(totals.costUsd)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4 flex justify-between">
+          <Button onClick={handleClear} variant="secondary" disabled={entries.length === 0}>Clear History</Button>
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import { Character, GeneratedContent, Scene, SceneBundle, SoundEffect } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/fileUtils';
+import { isSameCharacter } from '../utils/importUtils';
+import { createSceneRevision } from '../utils/revisionUtils';
+import { loadMediaBlob, saveMediaBlob } from './storageService';
+
+export interface ImportedSceneBundle {
+  scene: Scene;
+  // Characters and sound that are not already in the library and should be added to it
+  newCharacters: Character[];
+  newSoundEffect?: SoundEffect;
+}
+
+interface ExistingLibrary {
+  characters: Character[];
+  scenes: Scene[];
+  soundLibrary: SoundEffect[];
+}
+
+const remapKeys = <T>(record: Record<string, T> | undefined, idMap: Map<string, string>): Record<string, T> | undefined => {
+  if (!record) return record;
+  return Object.fromEntries(Object.entries(record).map(([id, value]) => [idMap.get(id) ?? id, value]));
+};
+
+// Object URLs and persisted media only exist in this browser, so inline them as data URLs.
+const inlineGeneratedContent = async (content: GeneratedContent): Promise<GeneratedContent | undefined> => {
+  const { mediaId, ...rest } = content;
+  if (mediaId) {
+    const blob = await loadMediaBlob(mediaId);
+    if (!blob) return undefined;
+    return { ...rest, url: await blobToDataUrl(blob) };
+  }
+  if (content.url.startsWith('blob:')) {
+    const response = await fetch(content.url);
+    return { ...rest, url: await blobToDataUrl(await response.blob()) };
+  }
+  return rest;
+};
+
+/**
+ * Packs a scene with the characters it references and its generated output so that it can be
+ * opened in a library that has none of them.
+ */
+export const createSceneBundle = async (scene: Scene, library: Character[]): Promise<SceneBundle> => {
+  const characters = scene.characterIds
+    .map(id => library.find(c => c.id === id))
+    .filter((c): c is Character => c !== undefined);
+
+  return {
+    scene: {
+      ...scene,
+      generatedContent: scene.generatedContent && await inlineGeneratedContent(scene.generatedContent),
+      // Revision history stays in the local library
+      revisions: undefined,
+    },
+    characters,
+  };
+};
+
+/**
+ * Merges a bundle into the existing library.
+ * Characters identical to one already in the library are reused; characters and scenes whose ids
+ * collide with different existing records get fresh ids, and every reference is remapped.
+ * Inlined video/audio output is moved into persisted media.
+ */
+export const importSceneBundle = async (bundle: SceneBundle, existing: ExistingLibrary): Promise<ImportedSceneBundle> => {
+  const idMap = new Map<string, string>();
+  const newCharacters: Character[] = [];
+
+  for (const incoming of bundle.characters) {
+    const identical = existing.characters.find(c => isSameCharacter(c, incoming));
+    if (identical) {
+      idMap.set(incoming.id, identical.id);
+      continue;
+    }
+    const idTaken = existing.characters.some(c => c.id === incoming.id) || newCharacters.some(c => c.id === incoming.id);
+    const character = idTaken ? { ...incoming, id: crypto.randomUUID() } : incoming;
+    idMap.set(incoming.id, character.id);
+    newCharacters.push(character);
+  }
+
+  let soundEffect = bundle.scene.soundEffect;
+  let newSoundEffect: SoundEffect | undefined;
+  if (soundEffect) {
+    const sameId = existing.soundLibrary.find(s => s.id === soundEffect!.id);
+    const identical = existing.soundLibrary.find(s => s.url === soundEffect!.url);
+    if (identical) {
+      soundEffect = identical;
+    } else {
+      soundEffect = sameId ? { ...soundEffect, id: crypto.randomUUID() } : soundEffect;
+      newSoundEffect = soundEffect;
+    }
+  }
+
+  let generatedContent = bundle.scene.generatedContent;
+  if (generatedContent) {
+    const { type, url, characterId, provenance } = generatedContent;
+    if ((type === 'video' || type === 'audio') && url.startsWith('data:')) {
+      const mediaId = await saveMediaBlob(dataUrlToBlob(url));
+      generatedContent = { ...generatedContent, url: '', mediaId };
+    }
+    if (characterId) {
+      generatedContent = { ...generatedContent, characterId: idMap.get(characterId) ?? characterId };
+    }
+    if (provenance) {
+      generatedContent = {
+        ...generatedContent,
+        provenance: {
+          ...provenance,
+          characterIds: provenance.characterIds?.map(id => idMap.get(id) ?? id),
+          rotations: remapKeys(provenance.rotations, idMap),
+        },
+      };
+    }
+  }
+
+  const sceneIdTaken = existing.scenes.some(s => s.id === bundle.scene.id);
+  const scene: Scene = {
+    ...bundle.scene,
+    id: sceneIdTaken ? crypto.randomUUID() : bundle.scene.id,
+    characterIds: bundle.scene.characterIds.map(id => idMap.get(id) ?? id),
+    rotations: remapKeys(bundle.scene.rotations, idMap),
+    positions: remapKeys(bundle.scene.positions, idMap),
+    soundEffect,
+    generatedContent,
+  };
+  // The imported state starts the scene's history in this library
+  scene.revisions = [createSceneRevision(scene)];
+
+  return { scene, newCharacters, newSoundEffect };
+};
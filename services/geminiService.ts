@@ -1,348 +1,306 @@
 
-import { GoogleGenAI, Modality, Part } from "@google/genai";
-import { MODEL_NAMES } from '../constants';
-// Fix: Import `fileToBase64` to resolve a reference error in the `generateVideo` function.
-import { fileToGenerativePart, fileToBase64 } from '../utils/fileUtils';
+import { GenerateContentResponse, GenerateVideosOperation, GoogleGenAI, Modality } from "@google/genai";
 import { base64ToUint8Array, createWavBlob } from '../utils/audioUtils';
-import { AspectRatio, Character } from '../types';
+import { recordUsage, VIDEO_CLIP_SECONDS } from '../utils/usageUtils';
+import { getModelName, loadSettings } from '../utils/settingsUtils';
+import { GenerationProvider, ImageParams, InlineImage } from '../types';
+import { EmptyResponseError, GenerationError, InvalidApiKeyError, NetworkError, ResponseDetails, RetryOptions, SafetyBlockedError, retryMessage, sleep, toGenerationError, withRetry } from './generationErrors';
 
 // Fix: Removed global type declaration for window.aistudio. It has been moved to types.ts to resolve a conflict.
 
-const getGenAI = () => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+// A key entered in settings takes precedence over the one built into the app
+const getApiKey = (): string => {
+  const apiKey = loadSettings().apiKey.trim() || process.env.API_KEY;
+  if (!apiKey) {
+    throw new InvalidApiKeyError("No API key is set. Enter one in Settings.");
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-}
-
-export const generateCharacterDescription = async (imageFile: File): Promise<string> => {
-  const ai = getGenAI();
-  const imagePart = await fileToGenerativePart(imageFile);
-  const textPart = { text: "Describe the character in this image in detail for a character design sheet. Focus on visual traits like hair, eyes, clothing, style, and key features. The description will be used to generate new images of this character." };
-  
-  const response = await ai.models.generateContent({
-    model: MODEL_NAMES.DESCRIPTION_GENERATION,
-    contents: { parts: [imagePart, textPart] },
-  });
-  
-  return response.text || '';
+  return apiKey;
 };
 
-export const generateCharacterImage = async (prompt: string): Promise<string> => {
-  const ai = getGenAI();
-  const response = await ai.models.generateImages({
-    model: MODEL_NAMES.IMAGE_GENERATION,
-    prompt,
-    config: {
-      numberOfImages: 1,
-      outputMimeType: 'image/jpeg',
-      aspectRatio: '1:1',
-    },
-  });
-
-  if (response.generatedImages && response.generatedImages.length > 0) {
-    const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-    return `data:image/jpeg;base64,${base64ImageBytes}`;
-  }
-  throw new Error("Image generation failed.");
+export const hasApiKey = () => !!(loadSettings().apiKey.trim() || process.env.API_KEY);
+
+const getGenAI = () => new GoogleGenAI({ apiKey: getApiKey() });
+
+// Finish reasons that mean the output was withheld by a filter rather than never produced
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION'];
+
+const FLAGGED_PROBABILITIES = ['MEDIUM', 'HIGH'];
+
+// Collects the feedback, finish reason, safety ratings and text parts the UI can explain a missing output with
+const describeResponse = (response: GenerateContentResponse): ResponseDetails => {
+    const candidate = response.candidates?.[0];
+    const ratings = [...(response.promptFeedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+    const flaggedCategories = Array.from(new Set(ratings
+        .filter(rating => rating.category && (rating.blocked || FLAGGED_PROBABILITIES.includes(rating.probability || '')))
+        .map(rating => String(rating.category))));
+    const text = (candidate?.content?.parts || [])
+        .filter(part => part.text && !part.thought)
+        .map(part => part.text)
+        .join('\n')
+        .trim();
+    return {
+        ...(response.promptFeedback?.blockReason && { blockReason: response.promptFeedback.blockReason }),
+        ...(candidate?.finishReason && { finishReason: candidate.finishReason }),
+        ...(candidate?.finishMessage && { finishMessage: candidate.finishMessage }),
+        ...(flaggedCategories.length > 0 && { flaggedCategories }),
+        ...(text && { text }),
+    };
 };
 
-export const generateImageFromInput = async (input: string, onProgress?: (message: string) => void): Promise<string> => {
-  const ai = getGenAI();
-  let prompt = input;
-  let outputMimeType = 'image/jpeg';
-
-  try {
-    const json = JSON.parse(input);
-    if (json.prompt) {
-      prompt = json.prompt;
-      if (json.transparent_background) {
-         prompt += ", transparent background";
-         outputMimeType = 'image/png';
-      }
-      if (json.progression_text && onProgress) {
-          onProgress(json.progression_text);
-      }
+// Throws when the prompt or the candidate was blocked, so an empty result is not mistaken for a glitch
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyBlockedError(response.promptFeedback?.blockReasonMessage || `The prompt was blocked (${blockReason}).`, describeResponse(response));
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockedError(`The output was blocked by the safety filters (${finishReason}).`, describeResponse(response));
     }
-  } catch (e) {
-    // Input is not JSON, treat as raw text prompt
-  }
-
-  const response = await ai.models.generateImages({
-    model: MODEL_NAMES.IMAGE_GENERATION,
-    prompt,
-    config: {
-      numberOfImages: 1,
-      outputMimeType: outputMimeType,
-      aspectRatio: '1:1',
-    },
-  });
-
-  if (response.generatedImages && response.generatedImages.length > 0) {
-    const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-    return `data:${outputMimeType};base64,${base64ImageBytes}`;
-  }
-  throw new Error("Image generation failed.");
-};
-
-/**
- * Resizes and rotates a base64 image.
- * Resizing to a smaller dimension (default 512px) ensures we can send multiple characters (up to 20)
- * without hitting API payload limits.
- */
-const processCharacterImage = async (base64Str: string, rotation: number = 0, maxSize: number = 512): Promise<string> => {
-    return new Promise((resolve) => {
-        const img = new Image();
-        img.src = base64Str;
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            // Calculate dimensions
-            let width = img.width;
-            let height = img.height;
-
-            // Resize logic (maintain aspect ratio)
-            if (width > maxSize || height > maxSize) {
-                const ratio = Math.min(maxSize / width, maxSize / height);
-                width = width * ratio;
-                height = height * ratio;
-            }
-
-            // Rotation dimension calculation
-            const rad = (rotation * Math.PI) / 180;
-            const sin = Math.abs(Math.sin(rad));
-            const cos = Math.abs(Math.cos(rad));
-            
-            // Canvas size must accommodate the rotated image
-            canvas.width = width * cos + height * sin;
-            canvas.height = width * sin + height * cos;
-
-            const ctx = canvas.getContext('2d');
-            if (!ctx) { resolve(base64Str); return; }
-
-            // High quality scaling
-            ctx.imageSmoothingEnabled = true;
-            ctx.imageSmoothingQuality = 'high';
-
-            ctx.translate(canvas.width / 2, canvas.height / 2);
-            ctx.rotate(rad);
-            // Draw resized image centered
-            ctx.drawImage(img, -width / 2, -height / 2, width, height);
-
-            // Export as PNG to preserve transparency if present
-            resolve(canvas.toDataURL('image/png'));
-        };
-        img.onerror = () => resolve(base64Str);
-    });
 };
 
-export const generateScene = async (characters: Character[], scenePrompt: string, rotations?: Record<string, number>, onProgress?: (message: string) => void): Promise<string> => {
+const generateImageContent = async (tool: 'scene' | 'edit', images: InlineImage[], prompt: string, params: ImageParams, failureMessage: string, signal?: AbortSignal): Promise<string> => {
     const ai = getGenAI();
-    
-    // Parse scenePrompt for JSON Context Profile
-    let finalPrompt = scenePrompt;
-    let explicitTransparent = false;
-    
-    try {
-        const json = JSON.parse(scenePrompt);
-        if (json.prompt) {
-            finalPrompt = json.prompt;
-            if (json.transparent_background) {
-                explicitTransparent = true;
-            }
-            if (json.progression_text && onProgress) {
-                onProgress(json.progression_text);
-            }
-        }
-    } catch (e) {
-        // Not JSON, use original string
-    }
-    
-    const parts: Part[] = [];
-
-    // Add character images
-    for (const character of characters) {
-        let imageUrl = character.imageUrl;
-        
-        // Process image: Apply rotation and resize to max 512px to optimize payload size
-        // This allows supporting up to 20 characters in a single request.
-        imageUrl = await processCharacterImage(imageUrl, rotations?.[character.id] || 0, 512);
-
-        // Extract base64 data and mimeType directly from the data URL
-        const matches = imageUrl.match(/^data:(.+);base64,(.+)$/);
-        if (matches) {
-            const mimeType = matches[1];
-            const base64Data = matches[2];
-            parts.push({
-                inlineData: {
-                    data: base64Data,
-                    mimeType: mimeType,
-                },
-            });
-        }
-    }
-    
-    // Add layering instructions to the prompt
-    let layeringInstruction = '';
-    if (characters.length > 1) {
-        // Array is ordered from back to front.
-        const layerDescriptions = characters.map((char, index) => {
-            if (index === 0) return `${char.name} is in the background`;
-            if (index === characters.length - 1) return `${char.name} is in the foreground`;
-            return `${char.name} is behind ${characters[index + 1].name} and in front of ${characters[index - 1].name}`;
-        }).join('. ');
-        layeringInstruction = `Pay close attention to the layering: ${layerDescriptions}. `;
-    }
-
-    let fullPrompt = `Create a new scene featuring the ${characters.length} character(s) from the provided image(s). ${layeringInstruction}Scene details: ${finalPrompt}. Maintain the characters' appearance and style as closely as possible.`;
-    
-    if (explicitTransparent) {
-        fullPrompt += " The background should be transparent or solid white to easily isolate the subjects.";
-    }
-
-    parts.push({ text: fullPrompt });
-
-    const response = await ai.models.generateContent({
-        model: MODEL_NAMES.IMAGE_EDITING,
-        contents: { parts },
+    const model = getModelName('IMAGE_EDITING');
+    const response = await withRetry(() => ai.models.generateContent({
+        model,
+        contents: { parts: [...images.map(inlineData => ({ inlineData })), { text: prompt }] },
         config: {
             responseModalities: [Modality.IMAGE],
+            ...(params.aspectRatio && { imageConfig: { aspectRatio: params.aspectRatio } }),
+            seed: params.seed,
+            abortSignal: signal,
         },
-    });
+    }), { signal });
 
-    for (const part of response.candidates[0].content.parts) {
+    assertNotBlocked(response);
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
         if (part.inlineData) {
+            recordUsage({ tool, model, images: 1 });
             return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
         }
     }
-
-    throw new Error("Scene generation failed to produce an image.");
+    const details = describeResponse(response);
+    throw new EmptyResponseError(details.text ? `${failureMessage} The model replied with text instead.` : failureMessage, details);
 };
 
-export const editImage = async (imageFile: File, prompt: string): Promise<string> => {
-    const ai = getGenAI();
-    const imagePart = await fileToGenerativePart(imageFile);
-    const textPart = { text: prompt };
+// Each request is retried on its own so a hiccup while polling does not restart the generation.
+const videoRetryOptions = (onProgress: (message: string) => void, signal?: AbortSignal): RetryOptions => ({
+    signal,
+    onRetry: (error: GenerationError, attempt: number, delayMs: number) => onProgress(retryMessage(error, attempt, delayMs)),
+});
+
+const VIDEO_PROGRESS_MESSAGES = [
+  "Summoning digital muses...",
+  "Warming up the pixels...",
+  "Choreographing the animation...",
+  "Rendering the first frames...",
+  "Almost there, adding the final sparkle...",
+];
+
+// Polls a video operation until it finishes, then downloads the result.
+// Cancelling only stops this loop; the server-side operation cannot be aborted and is left to expire.
+const pollVideoOperation = async (
+    ai: GoogleGenAI,
+    model: string,
+    operation: GenerateVideosOperation,
+    onProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const retryOptions = videoRetryOptions(onProgress, signal);
+    let messageIndex = 0;
 
-    const response = await ai.models.generateContent({
-        model: MODEL_NAMES.IMAGE_EDITING,
-        contents: { parts: [imagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
+    while (!operation.done) {
+        onProgress(VIDEO_PROGRESS_MESSAGES[messageIndex % VIDEO_PROGRESS_MESSAGES.length]);
+        messageIndex++;
+        await sleep(10000, signal);
+        const pending = operation;
+        operation = await withRetry(() => ai.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } }), retryOptions);
+    }
 
-    for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    if (operation.error) {
+        throw new GenerationError(String(operation.error.message || "Video generation failed."));
+    }
+
+    onProgress("Finalizing video...");
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadLink) {
+        if (operation.response?.raiMediaFilteredCount) {
+            throw new SafetyBlockedError(operation.response.raiMediaFilteredReasons?.join(' ') || undefined);
         }
+        throw new EmptyResponseError("Video generation did not return a valid link.");
     }
-    throw new Error("Image editing failed to produce an image.");
+
+    // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
+    const video = await withRetry(async () => {
+        const response = await fetch(`${downloadLink}&key=${getApiKey()}`, { signal });
+        if (!response.ok) {
+            const message = `Video download failed (${response.status}).`;
+            // Server errors may clear up on a retry; a rejected key or an expired link will not
+            if (response.status >= 500) throw new NetworkError(message, response.status);
+            throw toGenerationError(Object.assign(new Error(message), { status: response.status }));
+        }
+        return response.blob();
+    }, retryOptions);
+    recordUsage({ tool: 'video', model, videoSeconds: VIDEO_CLIP_SECONDS });
+    return video;
 };
 
-export const generateCharacterSpeech = async (text: string, voiceName: string): Promise<string> => {
-  const ai = getGenAI();
-  const response = await ai.models.generateContent({
-    model: MODEL_NAMES.TTS,
-    contents: { parts: [{ text }] },
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName },
-        },
-      },
-    },
+/**
+ * Checks `apiKey` by looking up each of `models`. Rejects when the key itself is unusable and
+ * otherwise resolves with the models it has no access to.
+ */
+export const testApiKey = async (apiKey: string, models: string[]): Promise<string[]> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const results = await Promise.allSettled(models.map(model => ai.models.get({ model })));
+  const unavailable: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') return;
+    const error = toGenerationError(result.reason);
+    if (error.status !== 404) throw error;
+    unavailable.push(models[index]);
   });
+  return unavailable;
+};
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) {
-    throw new Error("Failed to generate audio.");
-  }
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
 
-  // Convert raw PCM to WAV blob
-  const pcmData = base64ToUint8Array(base64Audio);
-  const wavBlob = createWavBlob(pcmData);
-  
-  return URL.createObjectURL(wavBlob);
-};
+  describeImage: async (image, instruction, signal) => {
+    const ai = getGenAI();
+    const model = getModelName('DESCRIPTION_GENERATION');
+    const response = await withRetry(() => ai.models.generateContent({
+      model,
+      contents: { parts: [{ inlineData: image }, { text: instruction }] },
+      config: { abortSignal: signal },
+    }), { signal });
+
+    assertNotBlocked(response);
+    recordUsage({ tool: 'describe', model });
+    return response.text || '';
+  },
+
+  generateImage: async (prompt, mimeType, count, params, signal) => {
+    const ai = getGenAI();
+    const model = getModelName('IMAGE_GENERATION');
+    const response = await withRetry(() => ai.models.generateImages({
+      model,
+      prompt,
+      config: {
+        numberOfImages: count,
+        outputMimeType: mimeType,
+        aspectRatio: params.aspectRatio || '1:1',
+        seed: params.seed,
+        abortSignal: signal,
+      },
+    }), { signal });
+
+    // Filtered candidates come back without bytes; return whatever survived
+    const generated = response.generatedImages || [];
+    const images = generated
+      .map(image => image.image?.imageBytes)
+      .filter((bytes): bytes is string => !!bytes)
+      .map(bytes => `data:${mimeType};base64,${bytes}`);
+    if (images.length > 0) {
+      recordUsage({ tool: 'image', model, images: images.length });
+      return images;
+    }
+    const filteredReason = generated.find(image => image.raiFilteredReason)?.raiFilteredReason;
+    if (filteredReason) {
+      throw new SafetyBlockedError(filteredReason);
+    }
+    throw new EmptyResponseError("Image generation returned no image.");
+  },
+
+  // The image model returns one image per request, so candidates are requested in parallel
+  // With a fixed seed every candidate would come out the same, so each one gets its own
+  composeScene: async (images, prompt, count, params, signal) => {
+    const results = await Promise.allSettled(
+      Array.from({ length: count }, (_, index) => generateImageContent(
+        'scene', images, prompt, { ...params, seed: params.seed === undefined ? undefined : params.seed + index }, "Scene generation failed to produce an image.", signal
+      ))
+    );
+    // Like `generateImage`, return whatever survived; the successful calls are already paid for
+    const scenes = results
+      .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+      .map(result => result.value);
+    if (scenes.length > 0) return scenes;
+    throw (results[0] as PromiseRejectedResult).reason;
+  },
+
+  editImage: (image, prompt, params, signal) => generateImageContent('edit', [image], prompt, params, "Image editing failed to produce an image.", signal),
+
+  generateSpeech: async (text, voiceName, signal) => {
+    const ai = getGenAI();
+    const model = getModelName('TTS');
+    const response = await withRetry(() => ai.models.generateContent({
+      model,
+      contents: { parts: [{ text }] },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName },
+          },
+        },
+        abortSignal: signal,
+      },
+    }), { signal });
 
+    assertNotBlocked(response);
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) {
+      throw new EmptyResponseError("Speech generation returned no audio.", describeResponse(response));
+    }
 
-export const generateVideo = async (
-    imageFile: File,
-    prompt: string,
-    aspectRatio: AspectRatio,
-    onProgress: (message: string) => void
-): Promise<string> => {
+    recordUsage({ tool: 'speech', model, ttsCharacters: text.length });
+    // Convert raw PCM to WAV blob
+    return createWavBlob(base64ToUint8Array(base64Audio));
+  },
+
+  generateVideo: async (image, prompt, params, onProgress, signal, onOperationStarted) => {
     onProgress("Initializing video generation...");
     // Create a new instance right before the call to ensure the latest key is used.
     const ai = getGenAI();
+    const model = getModelName('VIDEO_GENERATION');
 
-    let operation = await ai.models.generateVideos({
-        model: MODEL_NAMES.VIDEO_GENERATION,
+    const operation = await withRetry(() => ai.models.generateVideos({
+        model,
         prompt,
         image: {
-            imageBytes: (await fileToBase64(imageFile)).split(',')[1],
-            mimeType: imageFile.type,
+            imageBytes: image.data,
+            mimeType: image.mimeType,
         },
         config: {
             numberOfVideos: 1,
             resolution: '720p',
-            aspectRatio: aspectRatio,
+            aspectRatio: params.aspectRatio,
+            seed: params.seed,
+            abortSignal: signal,
         }
-    });
-
-    const progressMessages = [
-      "Summoning digital muses...",
-      "Warming up the pixels...",
-      "Choreographing the animation...",
-      "Rendering the first frames...",
-      "Almost there, adding the final sparkle...",
-    ];
-    let messageIndex = 0;
+    }), videoRetryOptions(onProgress, signal));
 
-    while (!operation.done) {
-        onProgress(progressMessages[messageIndex % progressMessages.length]);
-        messageIndex++;
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
-    
-    onProgress("Finalizing video...");
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) {
-        throw new Error("Video generation did not return a valid link.");
-    }
-    
-    // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
-    const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-    const videoBlob = await response.blob();
-    return URL.createObjectURL(videoBlob);
-};
+    if (operation.name) onOperationStarted?.(operation.name);
+    return pollVideoOperation(ai, model, operation, onProgress, signal);
+  },
 
-export const animateImage = async (
-    imageFile: File,
-    input: string,
-    aspectRatio: AspectRatio,
-    onProgress: (message: string) => void
-): Promise<string> => {
-    let prompt = input;
-    
+  resumeVideo: async (operationName, model, onProgress, signal) => {
+    onProgress("Reconnecting to video generation...");
+    const ai = getGenAI();
+    const handle = new GenerateVideosOperation();
+    handle.name = operationName;
+
+    let operation: GenerateVideosOperation;
     try {
-        const json = JSON.parse(input);
-        if (json.prompt) {
-            prompt = json.prompt;
-            // Handle transparent background compatibility hint
-            if (json.transparent_background) {
-               prompt += ". Keep background solid or simple to easily isolate subjects.";
-            }
-            if (json.progression_text) {
-                onProgress(json.progression_text);
-            }
-        }
+        operation = await withRetry(() => ai.operations.getVideosOperation({ operation: handle, config: { abortSignal: signal } }), videoRetryOptions(onProgress, signal));
     } catch (e) {
-        // Not JSON, use raw input
+        // Operations are only kept for a limited time after they finish
+        if (toGenerationError(e).status === 404) {
+            throw new GenerationError("The video generation has expired and can no longer be resumed.");
+        }
+        throw e;
     }
-    
-    // Re-use standard video generation logic but with parsed prompt
-    return generateVideo(imageFile, prompt, aspectRatio, onProgress);
-};
\ No newline at end of file
+    return pollVideoOperation(ai, model, operation, onProgress, signal);
+  },
+};
@@ -0,0 +1,184 @@
+/**
+ * Typed failures for generation calls, so the UI can explain what went wrong and whether
+ * trying again can help, plus a retry helper with exponential backoff for transient ones.
+ */
+
+export type GenerationErrorKind = 'quota' | 'safety' | 'invalid-key' | 'network' | 'empty-response' | 'usage-limit' | 'cancelled' | 'unknown';
+
+// What the model said about a response it produced no output for
+export interface ResponseDetails {
+  // Why the prompt was rejected before generation started
+  blockReason?: string;
+  finishReason?: string;
+  finishMessage?: string;
+  // Harm categories that caused the block or were rated a medium or high risk
+  flaggedCategories?: string[];
+  // Text the model returned instead, often a refusal or a question back
+  text?: string;
+}
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  // Whether the same request may succeed if repeated after a pause
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly details?: ResponseDetails;
+
+  constructor(message: string, kind: GenerationErrorKind = 'unknown', retryable = false, status?: number, details?: ResponseDetails) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(message = "The API rate limit or quota was exceeded.", status?: number) {
+    super(message, 'quota', true, status);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockedError extends GenerationError {
+  constructor(message = "The request was blocked by the safety filters.", details?: ResponseDetails) {
+    super(message, 'safety', false, undefined, details);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidApiKeyError extends GenerationError {
+  constructor(message = "The API key is missing or invalid.", status?: number) {
+    super(message, 'invalid-key', false, status);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message = "The generation service could not be reached.", status?: number) {
+    super(message, 'network', true, status);
+    this.name = 'NetworkError';
+  }
+}
+
+export class EmptyResponseError extends GenerationError {
+  constructor(message = "The model returned no output.", details?: ResponseDetails) {
+    super(message, 'empty-response', false, undefined, details);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+// Thrown before a call that would exceed the hard spending limit set in settings
+export class UsageLimitError extends GenerationError {
+  constructor(message = "The spending limit has been reached.") {
+    super(message, 'usage-limit', false);
+    this.name = 'UsageLimitError';
+  }
+}
+
+// Thrown when the caller aborts; not a failure, so the UI just stops loading.
+export class GenerationCancelledError extends GenerationError {
+  constructor(message = "The generation was cancelled.") {
+    super(message, 'cancelled', false);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationCancelledError();
+};
+
+// setTimeout that rejects as soon as `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Maps anything thrown by a provider or the SDK onto the error hierarchy.
+ * SDK errors carry the HTTP status; the message is checked for the cases it does not distinguish.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if ((error as { name?: unknown } | null)?.name === 'AbortError') return new GenerationCancelledError();
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new QuotaExceededError(message, status);
+  }
+  if (
+    status === 401 || status === 403 ||
+    /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message) ||
+    // Veo reports an unusable key as a missing entity
+    /Requested entity was not found/i.test(message)
+  ) {
+    return new InvalidApiKeyError(message, status);
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded/i.test(message)) {
+    return new NetworkError(message, status);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new NetworkError(message);
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new SafetyBlockedError(message);
+  }
+  return new GenerationError(message, 'unknown', false, status);
+};
+
+export interface RetryOptions {
+  // Total attempts including the first one
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 4;
+
+/**
+ * Runs `call`, repeating it after 1s, 2s, 4s... (with jitter) while it fails with a retryable
+ * error. Whatever is finally thrown is a `GenerationError`.
+ */
+export const withRetry = async <T>(call: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = DEFAULT_MAX_ATTEMPTS, baseDelayMs = 1000, maxDelayMs = 16000, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await call();
+    } catch (e) {
+      const error = signal?.aborted ? new GenerationCancelledError() : toGenerationError(e);
+      if (!error.retryable || attempt >= maxAttempts) throw error;
+      const delayMs = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs) * (0.8 + Math.random() * 0.4);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+export const retryMessage = (error: GenerationError, attempt: number, delayMs: number, maxAttempts = DEFAULT_MAX_ATTEMPTS) => {
+  const reason = error.kind === 'quota' ? 'Rate limited' : 'Service unavailable';
+  return `${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${maxAttempts})...`;
+};
@@ -0,0 +1,505 @@
+import { blobToDataUrl, dataUrlToBlob, fileToBase64 } from '../utils/fileUtils';
+import { getModelName, loadSettings } from '../utils/settingsUtils';
+import { claimPendingVideo, removePendingVideo, savePendingVideo } from '../utils/pendingVideoUtils';
+import { checkUsageLimit, estimateCost, reserveUsage, UsageLimitCheck, VIDEO_CLIP_SECONDS } from '../utils/usageUtils';
+import { describeProfileDetails, formatProfileIssue, parsePromptProfile, PromptProfile, VIDEO_ASPECT_RATIOS } from '../utils/promptProfileUtils';
+import { CHARACTER_VIEW_DESCRIPTIONS, CHARACTER_VIEW_LABELS, selectReferenceViews } from '../utils/characterViewUtils';
+import { AspectRatio, Character, CharacterView, GenerationProvenance, GenerationProvider, ImageAspectRatio, ImageParams, InlineImage, PendingVideoOperation, ProviderId, VideoParams } from '../types';
+import { GenerationError, GenerationErrorKind, throwIfCancelled, toGenerationError, UsageLimitError } from './generationErrors';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { getCachedResults, putCachedResults } from './storageService';
+
+/**
+ * Entry point for every generation feature. Prompt preparation (prompt profiles, layering
+ * instructions, image resizing) happens here; the provider selected in settings does the rest.
+ * Every function takes an optional AbortSignal and rejects with GenerationCancelledError once it fires.
+ */
+
+// A finished generation and how it was produced
+export interface GenerationOutput {
+  url: string;
+  provenance: GenerationProvenance;
+}
+
+export interface ImageCandidatesOutput {
+  urls: string[];
+  provenance: GenerationProvenance;
+}
+
+export interface CacheOptions {
+  // Skip the lookup and replace whatever is cached for the same inputs
+  force?: boolean;
+  // Called when the result is served from the cache instead of the provider
+  onHit?: () => void;
+}
+
+const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: geminiProvider.label, description: 'Generates with Imagen, Gemini and Veo. Requires an API key and network access.' },
+  { id: 'mock', label: mockProvider.label, description: 'Deterministic placeholder images, synthetic tones and short canned videos. Works offline without a key.' },
+];
+
+const getProvider = (): GenerationProvider => PROVIDERS[loadSettings().provider] || geminiProvider;
+
+// Content address of a generation: SHA-256 over everything that affects its output
+const createCacheKey = async (parts: Record<string, unknown>): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Serves results from the opt-in cache or produces them with `generate` and stores them.
+ * Each blob of a multi-candidate result is stored under its own key. Cache failures are
+ * logged and never fail the generation.
+ */
+const withResultCache = async (
+  keyParts: Record<string, unknown>,
+  count: number,
+  cache: CacheOptions,
+  generate: () => Promise<Blob[]>
+): Promise<{ blobs: Blob[]; cached: boolean }> => {
+  const settings = loadSettings();
+  if (!settings.resultCache) return { blobs: await generate(), cached: false };
+
+  const key = await createCacheKey({ provider: settings.provider, count, ...keyParts });
+  const keys = Array.from({ length: count }, (_, index) => `${key}/${index}`);
+  if (!cache.force) {
+    const cached = await getCachedResults(keys).catch(e => {
+      console.error("Failed to read the result cache", e);
+      return undefined;
+    });
+    if (cached) {
+      cache.onHit?.();
+      return { blobs: cached, cached: true };
+    }
+  }
+
+  const blobs = await generate();
+  // A provider may return fewer candidates than asked for (e.g. some were filtered); those are not cached
+  if (blobs.length === count) {
+    putCachedResults(blobs.map((blob, index) => ({ key: keys[index], blob })), settings.resultCacheLimitMb * 1024 * 1024)
+      .catch(e => console.error("Failed to write the result cache", e));
+  }
+  return { blobs, cached: false };
+};
+
+// Provenance of a generation that started at `startedAt` and has just finished
+const createProvenance = (
+  startedAt: number,
+  fields: Omit<GenerationProvenance, 'createdAt' | 'durationMs' | 'cached'>,
+  cached = false
+): GenerationProvenance => ({
+  ...fields,
+  createdAt: Date.now(),
+  durationMs: Date.now() - startedAt,
+  ...(cached && { cached }),
+});
+
+const getCandidateCount = () => Math.min(4, Math.max(1, loadSettings().candidateCount));
+
+/**
+ * How the next scene or video compares with the spending limits in settings. Only Gemini calls
+ * are billed and recorded, so other providers are never held back.
+ */
+const estimateGenerationCost = (tool: 'scene' | 'video'): number => getProvider() !== geminiProvider ? 0
+  : tool === 'scene' ? estimateCost({ tool, model: getModelName('IMAGE_EDITING'), images: getCandidateCount() })
+  : estimateCost({ tool, model: getModelName('VIDEO_GENERATION'), videoSeconds: VIDEO_CLIP_SECONDS });
+
+export const checkGenerationUsage = (tool: 'scene' | 'video'): UsageLimitCheck => {
+  const settings = loadSettings();
+  const estimate = estimateGenerationCost(tool);
+  if (estimate === 0) return { status: 'ok', spentUsd: 0 };
+  return checkUsageLimit(estimate, {
+    period: settings.usageLimitPeriod,
+    softUsd: settings.usageSoftLimitUsd,
+    hardUsd: settings.usageHardLimitUsd,
+  });
+};
+
+// The soft limit is only a warning shown before the job is queued; the hard one is enforced here.
+// The estimate stays reserved until the returned function is called, once the call has settled.
+const reserveWithinUsageLimit = (tool: 'scene' | 'video'): (() => void) => {
+  const check = checkGenerationUsage(tool);
+  if (check.status === 'block') throw new UsageLimitError(check.message);
+  return reserveUsage(estimateGenerationCost(tool));
+};
+
+/**
+ * Reads a tool's prompt input as a prompt profile and reports its progression text. The prompt
+ * fields validate as the user types; anything invalid that still gets here is rejected rather
+ * than sent with the bad fields dropped.
+ */
+const resolvePromptProfile = (input: string, onProgress?: (message: string) => void, aspectRatios?: readonly string[]): PromptProfile => {
+  const { profile, issues } = parsePromptProfile(input, aspectRatios);
+  if (issues.length > 0) {
+    throw new GenerationError(`The prompt profile is invalid. ${issues.map(formatProfileIssue).join(' ')}`);
+  }
+  if (profile.progression_text) onProgress?.(profile.progression_text);
+  return profile;
+};
+
+// `aspectRatio` is the tool's own choice; an aspect ratio in the profile overrides it
+const toImageParams = (profile: PromptProfile, aspectRatio?: ImageAspectRatio): ImageParams => ({
+  aspectRatio: profile.aspect_ratio || aspectRatio,
+  seed: profile.seed,
+});
+
+const fileToInlineImage = async (file: File): Promise<InlineImage> => ({
+  data: (await fileToBase64(file)).split(',')[1],
+  mimeType: file.type,
+});
+
+export const generateCharacterDescription = async (imageFile: File, signal?: AbortSignal): Promise<string> => {
+  const instruction = "Describe the character in this image in detail for a character design sheet. Focus on visual traits like hair, eyes, clothing, style, and key features. The description will be used to generate new images of this character.";
+  const image = await fileToInlineImage(imageFile);
+  throwIfCancelled(signal);
+  return getProvider().describeImage(image, instruction, signal);
+};
+
+// Image generators return every candidate; the first one is the default pick.
+export const generateCharacterImage = async (prompt: string, signal?: AbortSignal): Promise<string[]> => {
+  return getProvider().generateImage(prompt, 'image/jpeg', getCandidateCount(), {}, signal);
+};
+
+const dataUrlToInlineImage = (dataUrl: string): InlineImage | null => {
+  const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
+  return matches ? { data: matches[2], mimeType: matches[1] } : null;
+};
+
+// One angle of a turnaround, redrawn from the character's front view
+export const generateCharacterView = async (imageUrl: string, description: string, view: CharacterView, signal?: AbortSignal): Promise<string> => {
+  const image = dataUrlToInlineImage(imageUrl);
+  if (!image) {
+    throw new GenerationError("The character image could not be read.", 'unknown', false);
+  }
+  const details = description.trim() ? ` Character details: ${description.trim()}.` : '';
+  const prompt = `Redraw the same character ${CHARACTER_VIEW_DESCRIPTIONS[view]}, for a character reference sheet. Keep the design, proportions, colors, clothing and art style identical to the provided image.${details} Use a plain, neutral background.`;
+  return getProvider().editImage(image, prompt, {}, signal);
+};
+
+export const generateImageFromInput = async (input: string, aspectRatio: ImageAspectRatio, onProgress?: (message: string) => void, signal?: AbortSignal, cache: CacheOptions = {}): Promise<ImageCandidatesOutput> => {
+  const startedAt = Date.now();
+  const provider = getProvider();
+  const model = getModelName('IMAGE_GENERATION');
+  const profile = resolvePromptProfile(input, onProgress);
+  let prompt = profile.prompt;
+  let outputMimeType: 'image/jpeg' | 'image/png' = 'image/jpeg';
+  if (profile.transparent_background) {
+    prompt += ", transparent background";
+    outputMimeType = 'image/png';
+  }
+  prompt += describeProfileDetails(profile);
+  const params = toImageParams(profile, aspectRatio);
+
+  const count = getCandidateCount();
+  const { blobs, cached } = await withResultCache(
+    { operation: 'generateImage', model, prompt, outputMimeType, params },
+    count,
+    cache,
+    async () => (await provider.generateImage(prompt, outputMimeType, count, params, signal)).map(dataUrlToBlob),
+  );
+  return {
+    urls: await Promise.all(blobs.map(blobToDataUrl)),
+    provenance: createProvenance(startedAt, {
+      provider: provider.id,
+      model,
+      prompt,
+      params: { ...params, outputMimeType, candidates: count },
+    }, cached),
+  };
+};
+
+/**
+ * Resizes and rotates a base64 image.
+ * Resizing to a smaller dimension (default 512px) ensures we can send multiple characters (up to 20)
+ * without hitting API payload limits.
+ */
+const processCharacterImage = async (base64Str: string, rotation: number = 0, maxSize: number = 512): Promise<string> => {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.src = base64Str;
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            // Calculate dimensions
+            let width = img.width;
+            let height = img.height;
+
+            // Resize logic (maintain aspect ratio)
+            if (width > maxSize || height > maxSize) {
+                const ratio = Math.min(maxSize / width, maxSize / height);
+                width = width * ratio;
+                height = height * ratio;
+            }
+
+            // Rotation dimension calculation
+            const rad = (rotation * Math.PI) / 180;
+            const sin = Math.abs(Math.sin(rad));
+            const cos = Math.abs(Math.cos(rad));
+
+            // Canvas size must accommodate the rotated image
+            canvas.width = width * cos + height * sin;
+            canvas.height = width * sin + height * cos;
+
+            const ctx = canvas.getContext('2d');
+            if (!ctx) { resolve(base64Str); return; }
+
+            // High quality scaling
+            ctx.imageSmoothingEnabled = true;
+            ctx.imageSmoothingQuality = 'high';
+
+            ctx.translate(canvas.width / 2, canvas.height / 2);
+            ctx.rotate(rad);
+            // Draw resized image centered
+            ctx.drawImage(img, -width / 2, -height / 2, width, height);
+
+            // Export as PNG to preserve transparency if present
+            resolve(canvas.toDataURL('image/png'));
+        };
+        img.onerror = () => resolve(base64Str);
+    });
+};
+
+// Extra character views are only added while a scene request stays under this many images.
+// Front views are always sent, however many characters there are.
+const MAX_SCENE_IMAGES = 14;
+
+export const generateScene = async (characters: Character[], scenePrompt: string, rotations?: Record<string, number>, aspectRatio?: ImageAspectRatio, onProgress?: (message: string) => void, signal?: AbortSignal, cache: CacheOptions = {}): Promise<ImageCandidatesOutput> => {
+    const startedAt = Date.now();
+    const provider = getProvider();
+    const model = getModelName('IMAGE_EDITING');
+    const profile = resolvePromptProfile(scenePrompt, onProgress);
+    const params = toImageParams(profile, aspectRatio);
+
+    // The front view of every character, plus the other views the scene calls for while the request has room
+    const views = selectReferenceViews(characters, profile.prompt, MAX_SCENE_IMAGES);
+    const references = characters.flatMap(character => views.get(character.id)!.map(reference => ({ character, reference })));
+
+    // Add layering instructions to the prompt
+    let layeringInstruction = '';
+    if (characters.length > 1) {
+        // Array is ordered from back to front.
+        const layerDescriptions = characters.map((char, index) => {
+            if (index === 0) return `${char.name} is in the background`;
+            if (index === characters.length - 1) return `${char.name} is in the foreground`;
+            return `${char.name} is behind ${characters[index + 1].name} and in front of ${characters[index - 1].name}`;
+        }).join('. ');
+        layeringInstruction = `Pay close attention to the layering: ${layerDescriptions}. `;
+    }
+
+    // With several images per character, say which image shows whom
+    let viewInstruction = '';
+    if (references.length > characters.length) {
+        const order = references.map(({ character, reference }) => `${character.name} (${CHARACTER_VIEW_LABELS[reference.view].toLowerCase()} view)`).join(', ');
+        viewInstruction = `The provided images are reference views, in this order: ${order}. `;
+    }
+
+    let fullPrompt = `Create a new scene featuring the ${characters.length} character(s) from the provided image(s). ${viewInstruction}${layeringInstruction}Scene details: ${profile.prompt}. Maintain the characters' appearance and style as closely as possible.`;
+
+    if (profile.transparent_background) {
+        fullPrompt += " The background should be transparent or solid white to easily isolate the subjects.";
+    }
+    fullPrompt += describeProfileDetails(profile);
+
+    // Keyed on the original images, so a cache hit also skips the resizing below
+    const count = getCandidateCount();
+    const { blobs, cached } = await withResultCache(
+        {
+            operation: 'composeScene',
+            model,
+            prompt: fullPrompt,
+            images: references.map(({ reference }) => reference.imageUrl),
+            rotations: characters.map(character => rotations?.[character.id] || 0),
+            params,
+        },
+        count,
+        cache,
+        async () => {
+            // Checked only when the provider is actually called; cached results cost nothing
+            const releaseUsage = reserveWithinUsageLimit('scene');
+            try {
+                const images: InlineImage[] = [];
+
+                // Add character images
+                for (const { character, reference } of references) {
+                    // Process image: Apply rotation and resize to max 512px to optimize payload size
+                    // This allows supporting up to 20 characters in a single request.
+                    const imageUrl = await processCharacterImage(reference.imageUrl, rotations?.[character.id] || 0, 512);
+
+                    // Extract base64 data and mimeType directly from the data URL
+                    const image = dataUrlToInlineImage(imageUrl);
+                    if (image) {
+                        images.push(image);
+                    }
+                }
+
+                throwIfCancelled(signal);
+                return (await provider.composeScene(images, fullPrompt, count, params, signal)).map(dataUrlToBlob);
+            } finally {
+                releaseUsage();
+            }
+        },
+    );
+    return {
+        urls: await Promise.all(blobs.map(blobToDataUrl)),
+        provenance: createProvenance(startedAt, {
+            provider: provider.id,
+            model,
+            prompt: fullPrompt,
+            characterIds: characters.map(character => character.id),
+            rotations: Object.fromEntries(characters.map(character => [character.id, rotations?.[character.id] || 0])),
+            params: { ...params, candidates: count },
+        }, cached),
+    };
+};
+
+export const editImage = async (imageFile: File, input: string, onProgress?: (message: string) => void, signal?: AbortSignal, cache: CacheOptions = {}): Promise<GenerationOutput> => {
+    const startedAt = Date.now();
+    const provider = getProvider();
+    const model = getModelName('IMAGE_EDITING');
+    const profile = resolvePromptProfile(input, onProgress);
+    let prompt = profile.prompt;
+    if (profile.transparent_background) {
+        prompt += " Make the background transparent or solid white to easily isolate the subject.";
+    }
+    prompt += describeProfileDetails(profile);
+    const params = toImageParams(profile);
+
+    const image = await fileToInlineImage(imageFile);
+    throwIfCancelled(signal);
+    const { blobs: [result], cached } = await withResultCache(
+        { operation: 'editImage', model, prompt, image, params },
+        1,
+        cache,
+        async () => [dataUrlToBlob(await provider.editImage(image, prompt, params, signal))],
+    );
+    return {
+        url: await blobToDataUrl(result),
+        provenance: createProvenance(startedAt, {
+            provider: provider.id,
+            model,
+            prompt,
+            sourceImageName: imageFile.name,
+            params: { ...params },
+        }, cached),
+    };
+};
+
+export const generateCharacterSpeech = async (text: string, voiceName: string, signal?: AbortSignal, cache: CacheOptions = {}): Promise<GenerationOutput> => {
+  const startedAt = Date.now();
+  const provider = getProvider();
+  const model = getModelName('TTS');
+  const { blobs: [wavBlob], cached } = await withResultCache(
+    { operation: 'generateSpeech', model, text, voiceName },
+    1,
+    cache,
+    async () => [await provider.generateSpeech(text, voiceName, signal)],
+  );
+  throwIfCancelled(signal);
+  return {
+    url: URL.createObjectURL(wavBlob),
+    provenance: createProvenance(startedAt, { provider: provider.id, model, prompt: text, params: { voice: voiceName } }, cached),
+  };
+};
+
+// Both video tools take a prompt profile; `aspectRatio` is the tool's own choice, which the profile can override
+export const generateVideo = async (
+    imageFile: File,
+    input: string,
+    aspectRatio: AspectRatio,
+    onProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<GenerationOutput> => {
+    const startedAt = Date.now();
+    const profile = resolvePromptProfile(input, onProgress, VIDEO_ASPECT_RATIOS);
+    let prompt = profile.prompt;
+    if (profile.transparent_background) {
+        prompt += ". Keep background solid or simple to easily isolate subjects.";
+    }
+    prompt += describeProfileDetails(profile);
+    const params: VideoParams = { aspectRatio: (profile.aspect_ratio as AspectRatio | undefined) || aspectRatio, seed: profile.seed };
+
+    const image = await fileToInlineImage(imageFile);
+    throwIfCancelled(signal);
+    const provider = getProvider();
+    const model = getModelName('VIDEO_GENERATION');
+
+    const releaseUsage = reserveWithinUsageLimit('video');
+
+    // The operation handle is stored while it runs so `resumeVideo` can pick it up after a reload.
+    // A reload never reaches the `finally`, which is what keeps the record around.
+    let pendingId: string | null = null;
+    // Claimed before the handle is stored, so other tabs starting up leave the operation to this one
+    let claim: Promise<(() => void) | null> | null = null;
+    try {
+        const videoBlob = await provider.generateVideo(image, prompt, params, onProgress, signal, (operationName) => {
+            claim = claimPendingVideo(operationName);
+            pendingId = crypto.randomUUID();
+            savePendingVideo({ id: pendingId, provider: provider.id, operationName, prompt, aspectRatio: params.aspectRatio, imageName: imageFile.name, model, startedAt: Date.now() });
+        });
+        // Don't hand out a blob URL nobody will revoke
+        throwIfCancelled(signal);
+        return {
+            url: URL.createObjectURL(videoBlob),
+            provenance: createProvenance(startedAt, {
+                provider: provider.id,
+                model,
+                prompt,
+                sourceImageName: imageFile.name,
+                params: { ...params },
+            }),
+        };
+    } finally {
+        if (pendingId) removePendingVideo(pendingId);
+        claim?.then(release => release?.());
+        releaseUsage();
+    }
+};
+
+// Failures that say nothing about the operation itself; its handle is kept for another attempt
+const RESUMABLE_ERROR_KINDS: GenerationErrorKind[] = ['quota', 'invalid-key', 'network'];
+
+export const resumeVideo = async (
+    pending: PendingVideoOperation,
+    onProgress: (message: string) => void,
+    signal?: AbortSignal
+): Promise<GenerationOutput> => {
+    const release = await claimPendingVideo(pending.operationName);
+    if (!release) {
+        throw new GenerationError("This video is already being finished in another tab.", 'unknown', false);
+    }
+    // Stored again so retrying a resumed job is itself resumable
+    savePendingVideo(pending);
+    // Handles stored before the model was kept with them fall back to the current one
+    const model = pending.model || getModelName('VIDEO_GENERATION');
+    let videoBlob: Blob;
+    try {
+        videoBlob = await (PROVIDERS[pending.provider] || geminiProvider).resumeVideo(pending.operationName, model, onProgress, signal);
+        throwIfCancelled(signal);
+    } catch (e) {
+        const error = toGenerationError(e);
+        if (!RESUMABLE_ERROR_KINDS.includes(error.kind)) removePendingVideo(pending.id);
+        throw error;
+    } finally {
+        release();
+    }
+    removePendingVideo(pending.id);
+    // Timed from the original start; the seed, if any, was not kept with the handle
+    return {
+        url: URL.createObjectURL(videoBlob),
+        provenance: createProvenance(pending.startedAt, {
+            provider: pending.provider,
+            model,
+            prompt: pending.prompt,
+            sourceImageName: pending.imageName,
+            params: { aspectRatio: pending.aspectRatio },
+        }),
+    };
+};
+
+// Animating a picture is video generation from that picture; the two tools share one pipeline
+export const animateImage = generateVideo;
@@ -0,0 +1,189 @@
+import { GeneratedContent, ToolType } from '../types';
+import { GenerationError, toGenerationError } from './generationErrors';
+import { CacheOptions } from './generationService';
+
+/**
+ * Runs generations in the background, a limited number at a time. Jobs keep the inputs they
+ * were started with and their result, so output survives switching tools and can be opened
+ * or saved whenever it is ready.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// `url` is the main result; image jobs may also return alternatives to pick from.
+export interface GenerationResult extends GeneratedContent {
+  // Every candidate, including `url`
+  candidates?: string[];
+  // The prompt the candidates came from, used when one is saved as a character
+  prompt?: string;
+}
+
+// Candidates are only kept while picking; scenes and autosaves store the chosen content alone
+export const toGeneratedContent = ({ candidates, prompt, ...content }: GenerationResult): GeneratedContent => content;
+
+export interface JobContext {
+  signal: AbortSignal;
+  setProgress: (message: string) => void;
+  // Passed on to cacheable generation calls
+  cache: CacheOptions;
+}
+
+// What a panel submits. `run` is called again with the same captured inputs on retry.
+export interface GenerationJobSpec {
+  tool: ToolType;
+  label: string;
+  // Shown in the jobs panel, e.g. { label: 'Prompt', value: '...' }
+  inputs: { label: string; value: string }[];
+  run: (context: JobContext) => Promise<GenerationResult>;
+  // Restored from an earlier session; nobody is watching it, so its outcome is announced
+  resumed?: boolean;
+  // Bypass the result cache
+  forceRegenerate?: boolean;
+}
+
+export interface GenerationJob extends GenerationJobSpec {
+  id: string;
+  status: JobStatus;
+  progress: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: GenerationResult;
+  // The result came from the cache rather than the provider
+  cacheHit?: boolean;
+  error?: GenerationError;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  // Receives a new array whenever any job changes, newest job first
+  onChange: (jobs: GenerationJob[]) => void;
+  // Called once per job when it succeeds, fails or is cancelled
+  onSettled?: (job: GenerationJob) => void;
+}
+
+export interface JobQueue {
+  enqueue: (spec: GenerationJobSpec) => GenerationJob;
+  // Queues a fresh copy of a finished job; returns null if the job is unknown
+  retry: (id: string, forceRegenerate?: boolean) => GenerationJob | null;
+  cancel: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+export const isJobActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+  let jobs: GenerationJob[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  const controllers = new Map<string, AbortController>();
+
+  const find = (id: string) => jobs.find(job => job.id === id);
+
+  const update = (id: string, patch: Partial<GenerationJob>): GenerationJob | undefined => {
+    let updated: GenerationJob | undefined;
+    jobs = jobs.map(job => {
+      if (job.id !== id) return job;
+      updated = { ...job, ...patch };
+      return updated;
+    });
+    options.onChange(jobs);
+    return updated;
+  };
+
+  const settle = (id: string, patch: Partial<GenerationJob>) => {
+    controllers.delete(id);
+    const settled = update(id, { ...patch, finishedAt: Date.now() });
+    if (settled) options.onSettled?.(settled);
+    pump();
+  };
+
+  const start = (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', startedAt: Date.now() });
+
+    // A job cancelled or removed while running has already been settled; ignore its late outcome
+    const isCurrent = () => controllers.get(job.id) === controller;
+    job.run({
+      signal: controller.signal,
+      setProgress: (progress) => {
+        if (isCurrent()) update(job.id, { progress });
+      },
+      cache: {
+        force: job.forceRegenerate,
+        onHit: () => {
+          if (isCurrent()) update(job.id, { cacheHit: true });
+        },
+      },
+    }).then(
+      (result) => {
+        if (isCurrent()) settle(job.id, { status: 'succeeded', result, progress: '' });
+      },
+      (e) => {
+        if (!isCurrent()) return;
+        const error = toGenerationError(e);
+        settle(job.id, error.kind === 'cancelled' ? { status: 'cancelled', progress: '' } : { status: 'failed', error, progress: '' });
+      },
+    );
+  };
+
+  // Starts queued jobs, oldest first, until the concurrency limit is reached
+  const pump = () => {
+    const running = jobs.filter(job => job.status === 'running').length;
+    const waiting = jobs.filter(job => job.status === 'queued').reverse();
+    waiting.slice(0, Math.max(0, concurrency - running)).forEach(start);
+  };
+
+  const enqueue = (spec: GenerationJobSpec): GenerationJob => {
+    const job: GenerationJob = {
+      ...spec,
+      id: crypto.randomUUID(),
+      status: 'queued',
+      progress: '',
+      createdAt: Date.now(),
+    };
+    jobs = [job, ...jobs];
+    options.onChange(jobs);
+    pump();
+    return find(job.id) || job;
+  };
+
+  const cancel = (id: string) => {
+    const job = find(id);
+    if (!job || !isJobActive(job)) return;
+    controllers.get(id)?.abort();
+    settle(id, { status: 'cancelled', progress: '' });
+  };
+
+  return {
+    enqueue,
+    retry: (id, forceRegenerate) => {
+      const job = find(id);
+      if (!job) return null;
+      return enqueue({
+        tool: job.tool,
+        label: job.label,
+        inputs: job.inputs,
+        run: job.run,
+        resumed: job.resumed,
+        forceRegenerate: forceRegenerate ?? job.forceRegenerate,
+      });
+    },
+    cancel,
+    remove: (id) => {
+      cancel(id);
+      jobs = jobs.filter(job => job.id !== id);
+      options.onChange(jobs);
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(isJobActive);
+      options.onChange(jobs);
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+  };
+};
@@ -0,0 +1,247 @@
+import { createWavBlob } from '../utils/audioUtils';
+import { AspectRatio, GenerationProvider, ImageAspectRatio, ImageParams, InlineImage } from '../types';
+import { GenerationCancelledError, GenerationError, sleep } from './generationErrors';
+
+/**
+ * Offline stand-in for the Gemini provider. Output is derived from a hash of the inputs, so the
+ * same request always produces the same placeholder image, tone sequence or clip. Nothing leaves
+ * the browser and no API key is needed.
+ */
+
+const SIMULATED_LATENCY_MS = 600;
+const IMAGE_SIZE = 512;
+const SPEECH_SAMPLE_RATE = 24000;
+const VIDEO_DURATION_MS = 2000;
+
+// FNV-1a, good enough to seed colours and tones
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashImages = (images: InlineImage[]) => images.map(image => hashString(image.data)).join(':');
+
+const loadImage = (image: InlineImage): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not read the input image."));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available.");
+  return { canvas, ctx };
+};
+
+const paintBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, seed: string) => {
+  const random = createRandom(hashString(seed));
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${Math.floor(random() * 360)}, 60%, 35%)`);
+  gradient.addColorStop(1, `hsl(${Math.floor(random() * 360)}, 60%, 20%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, text: string) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+  ctx.font = '16px sans-serif';
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > width - 32 && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  const shown = lines.slice(0, 4);
+  if (lines.length > shown.length) shown[shown.length - 1] += '…';
+
+  const boxHeight = shown.length * 20 + 36;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, height - boxHeight, width, boxHeight);
+  ctx.fillStyle = '#a5b4fc';
+  ctx.font = 'bold 12px sans-serif';
+  ctx.fillText('MOCK PROVIDER', 16, height - boxHeight + 20);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '16px sans-serif';
+  shown.forEach((text, index) => ctx.fillText(text, 16, height - boxHeight + 42 + index * 20));
+};
+
+// Draws `img` scaled to fit inside the given box, centred
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / img.width, height / img.height);
+  const w = img.width * scale;
+  const h = img.height * scale;
+  ctx.drawImage(img, x + (width - w) / 2, y + (height - h) / 2, w, h);
+};
+
+// IMAGE_SIZE on the long edge, the short edge following the requested ratio
+const imageSize = (aspectRatio: ImageAspectRatio = '1:1') => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width >= height
+    ? { width: IMAGE_SIZE, height: Math.round((IMAGE_SIZE * height) / width) }
+    : { width: Math.round((IMAGE_SIZE * width) / height), height: IMAGE_SIZE };
+};
+
+// A fixed seed replaces the prompt as the source of the colours, so it reproduces across prompts
+const candidateSeed = (base: string, params: ImageParams, candidate: number) =>
+  `${params.seed ?? base}${candidate === 0 ? '' : `#${candidate}`}`;
+
+const videoSize = (aspectRatio: AspectRatio) => aspectRatio === '9:16' ? { width: 360, height: 640 } : { width: 640, height: 360 };
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+
+  describeImage: async (image, _instruction, signal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    const random = createRandom(hashString(image.data));
+    const pick = <T>(options: T[]) => options[Math.floor(random() * options.length)];
+    return [
+      `A ${pick(['cheerful', 'stoic', 'curious', 'mischievous'])} character with ${pick(['short silver', 'long auburn', 'curly black', 'spiky blue'])} hair`,
+      `and ${pick(['green', 'amber', 'grey', 'violet'])} eyes, wearing a ${pick(['red scarf and leather jacket', 'flowing blue robe', 'yellow raincoat', 'patched explorer outfit'])}.`,
+      `Drawn in a ${pick(['clean cel-shaded', 'soft watercolor', 'bold comic', 'pixel art'])} style.`,
+      '(Mock description)',
+    ].join(' ');
+  },
+
+  // Candidates after the first are seeded with their index so each one looks different
+  generateImage: async (prompt, mimeType, count, params, signal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    const { width, height } = imageSize(params.aspectRatio);
+    return Array.from({ length: count }, (_, candidate) => {
+      const seed = candidateSeed(prompt, params, candidate);
+      const { canvas, ctx } = createCanvas(width, height);
+      paintBackground(ctx, width, height, seed);
+      const random = createRandom(hashString(seed));
+      for (let i = 0; i < 6; i++) {
+        ctx.fillStyle = `hsla(${Math.floor(random() * 360)}, 70%, 60%, 0.5)`;
+        ctx.beginPath();
+        ctx.arc(random() * width, random() * height * 0.7, 20 + random() * 80, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      drawCaption(ctx, width, height, prompt);
+      return canvas.toDataURL(mimeType);
+    });
+  },
+
+  composeScene: async (images, prompt, count, params, signal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    const { width, height } = imageSize(params.aspectRatio);
+    // Characters side by side, back to front
+    const loaded = await Promise.all(images.map(loadImage));
+    const slotWidth = width / Math.max(loaded.length, 1);
+    return Array.from({ length: count }, (_, candidate) => {
+      const { canvas, ctx } = createCanvas(width, height);
+      paintBackground(ctx, width, height, candidateSeed(`${prompt}:${hashImages(images)}`, params, candidate));
+      loaded.forEach((img, index) => drawContained(ctx, img, index * slotWidth, height * 0.15, slotWidth, height * 0.55));
+      drawCaption(ctx, width, height, prompt);
+      return canvas.toDataURL('image/png');
+    });
+  },
+
+  // Edits keep the input's dimensions
+  editImage: async (image, prompt, _params, signal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(img.width, img.height);
+    ctx.drawImage(img, 0, 0);
+    // Tint derived from the edit so different edits are visibly different
+    ctx.fillStyle = `hsla(${hashString(prompt) % 360}, 80%, 50%, 0.25)`;
+    ctx.fillRect(0, 0, img.width, img.height);
+    drawCaption(ctx, img.width, img.height, prompt);
+    return canvas.toDataURL('image/png');
+  },
+
+  generateSpeech: async (text, voiceName, signal) => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    // One short tone per word, pitched by the word and the voice
+    const words = text.split(/\s+/).filter(Boolean).slice(0, 40);
+    const toneSamples = Math.floor(SPEECH_SAMPLE_RATE * 0.18);
+    const gapSamples = Math.floor(SPEECH_SAMPLE_RATE * 0.06);
+    const pcm = new Int16Array(Math.max(words.length, 1) * (toneSamples + gapSamples));
+    const baseFrequency = 180 + (hashString(voiceName) % 120);
+    words.forEach((word, index) => {
+      const frequency = baseFrequency + (hashString(word) % 200);
+      const offset = index * (toneSamples + gapSamples);
+      for (let i = 0; i < toneSamples; i++) {
+        const envelope = Math.sin((Math.PI * i) / toneSamples);
+        pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SPEECH_SAMPLE_RATE) * envelope * 8000);
+      }
+    });
+    return createWavBlob(new Uint8Array(pcm.buffer), SPEECH_SAMPLE_RATE);
+  },
+
+  generateVideo: async (image, prompt, { aspectRatio }, onProgress, signal) => {
+    onProgress("Rendering mock video...");
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error("Mock video needs MediaRecorder, which this browser does not support.");
+    }
+    const img = await loadImage(image);
+    const { width, height } = videoSize(aspectRatio);
+    const { canvas, ctx } = createCanvas(width, height);
+    const recorder = new MediaRecorder(canvas.captureStream(30), MediaRecorder.isTypeSupported('video/webm') ? { mimeType: 'video/webm' } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    // A slow zoom over the input image, the same for every run
+    const start = performance.now();
+    recorder.start();
+    await new Promise<void>((resolve, reject) => {
+      const drawFrame = () => {
+        if (signal?.aborted) {
+          recorder.stop();
+          reject(new GenerationCancelledError());
+          return;
+        }
+        const progress = Math.min((performance.now() - start) / VIDEO_DURATION_MS, 1);
+        const zoom = 1 + progress * 0.15;
+        paintBackground(ctx, width, height, prompt);
+        ctx.save();
+        ctx.translate(width / 2, height / 2);
+        ctx.scale(zoom, zoom);
+        drawContained(ctx, img, -width / 2, -height / 2, width, height);
+        ctx.restore();
+        drawCaption(ctx, width, height, prompt);
+        if (progress < 1) {
+          requestAnimationFrame(drawFrame);
+        } else {
+          resolve();
+        }
+      };
+      drawFrame();
+    });
+    recorder.stop();
+    await stopped;
+    onProgress("Finalizing video...");
+    return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+  },
+
+  // Mock videos are rendered in the page and never report an operation, so there is nothing to resume
+  resumeVideo: async () => {
+    throw new GenerationError("The offline mock cannot resume video generations.");
+  },
+};
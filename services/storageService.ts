@@ -0,0 +1,741 @@
+import { AutosaveSlot, Character, GeneratedContent, Scene, SceneRevision, SoundEffect } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/fileUtils';
+import { PAYLOAD_FORMATS, PayloadFormat, currentVersion, isValidCharacter, isValidScene, isValidSoundEffect, migratePayload, unwrapPayload } from '../utils/schemaUtils';
+
+/**
+ * IndexedDB-backed persistence for the character, scene and sound libraries, the
+ * scene builder's autosave slots and the generation result cache.
+ *
+ * Records are stored with their base64 data URLs swapped out for `asset:<id>` references.
+ * The binary payload lives in the `assets` store as a Blob, which keeps us clear of the
+ * ~5 MB localStorage quota and avoids the 33% base64 overhead on disk.
+ */
+
+const DB_NAME = 'css_studio';
+const DB_VERSION = 3;
+
+const STORES = {
+  CHARACTERS: 'characters',
+  SCENES: 'scenes',
+  SOUNDS: 'sounds',
+  AUTOSAVES: 'autosaves',
+  ASSETS: 'assets',
+  CACHE: 'cache',
+  META: 'meta',
+} as const;
+
+type RecordStore = typeof STORES.CHARACTERS | typeof STORES.SCENES | typeof STORES.SOUNDS | typeof STORES.AUTOSAVES;
+
+// Schema format of the records in each store. The version they were written at is kept in
+// the meta store so records can be upgraded on load.
+const STORE_FORMATS: Record<RecordStore, PayloadFormat> = {
+  [STORES.CHARACTERS]: PAYLOAD_FORMATS.CHARACTER,
+  [STORES.SCENES]: PAYLOAD_FORMATS.SCENE,
+  [STORES.SOUNDS]: PAYLOAD_FORMATS.SOUND,
+  [STORES.AUTOSAVES]: PAYLOAD_FORMATS.AUTOSAVE,
+};
+
+const schemaVersionKey = (store: RecordStore) => `schemaVersion/${store}`;
+
+// Legacy localStorage keys, migrated once and then removed.
+const LEGACY_KEYS = {
+  CHARACTERS: 'css_characters',
+  SCENES: 'css_scenes',
+  SOUNDS: 'css_sound_library',
+};
+
+// Older versions kept a single autosave snapshot here; it becomes the first slot.
+const LEGACY_AUTOSAVE_KEY = 'css_autosave';
+
+const MIGRATION_FLAG = 'migratedFromLocalStorage';
+const ASSET_REF_PREFIX = 'asset:';
+
+// Generated videos and audio are kept as raw blobs under their own namespace and are
+// rehydrated into object URLs on demand rather than as data URLs.
+const MEDIA_PREFIX = 'media/';
+
+interface StoredAsset {
+  id: string;
+  blob: Blob;
+  // Set on persisted media only; see MEDIA_GRACE_PERIOD_MS
+  createdAt?: number;
+}
+
+// A generation result keyed by a hash of its inputs
+interface CachedResult {
+  id: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+}
+
+// Size and last use of every cached result, kept in the meta store apart from the blobs so
+// that eviction and usage totals never have to read them. `lastUsedAt` drives eviction.
+type CacheIndex = Record<string, { size: number; lastUsedAt: number }>;
+
+const CACHE_INDEX_KEY = 'cacheIndex';
+
+// Assets collected while externalizing records for a save. The same data URL (e.g. a scene's
+// output and its latest revision) is written once and referenced from every place it appears.
+interface AssetBatch {
+  assets: StoredAsset[];
+  idsByUrl: Map<string, string>;
+}
+
+// Stored blobs by asset id, plus the data URLs already rebuilt from them during a load
+interface AssetReader {
+  blobs: Map<string, Blob>;
+  urls: Map<string, Promise<string>>;
+}
+
+export interface LibraryData {
+  characters: Character[];
+  scenes: Scene[];
+  soundLibrary: SoundEffect[];
+}
+
+// The database needs upgrading but a tab on the older version still has it open
+export class DatabaseBlockedError extends Error {
+  constructor(message = "Your library is open in another tab running an older version of the app. Close the other tabs and reload this one.") {
+    super(message);
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let migrationPromise: Promise<void> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of [STORES.CHARACTERS, STORES.SCENES, STORES.SOUNDS, STORES.AUTOSAVES, STORES.ASSETS, STORES.CACHE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+        if (!db.objectStoreNames.contains(STORES.META)) {
+          db.createObjectStore(STORES.META);
+        }
+      };
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new DatabaseBlockedError());
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The other tabs closed after all; the next call opens the database again
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Lets a newer version of the app in another tab upgrade the database instead of being blocked by this one
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted.'));
+  });
+};
+
+// Asset ids are namespaced by the store that owns them so a save can prune its own stale blobs.
+const assetPrefix = (store: RecordStore) => `${store}/`;
+
+/**
+ * Replaces a data URL with an asset reference, queuing the decoded Blob for writing.
+ * Anything that is not a data URL (already a reference, remote URL, empty) passes through.
+ */
+const externalizeUrl = (url: string | undefined, assetId: string, batch: AssetBatch): string | undefined => {
+  if (!url || !url.startsWith('data:')) return url;
+  const existingId = batch.idsByUrl.get(url);
+  if (existingId) return `${ASSET_REF_PREFIX}${existingId}`;
+  batch.assets.push({ id: assetId, blob: dataUrlToBlob(url) });
+  batch.idsByUrl.set(url, assetId);
+  return `${ASSET_REF_PREFIX}${assetId}`;
+};
+
+const internalizeUrl = async (url: string | undefined, reader: AssetReader): Promise<string | undefined> => {
+  if (!url || !url.startsWith(ASSET_REF_PREFIX)) return url;
+  const assetId = url.slice(ASSET_REF_PREFIX.length);
+  const blob = reader.blobs.get(assetId);
+  if (!blob) {
+    console.warn(`Missing stored asset "${assetId}"`);
+    return '';
+  }
+  let dataUrl = reader.urls.get(assetId);
+  if (!dataUrl) {
+    dataUrl = blobToDataUrl(blob);
+    reader.urls.set(assetId, dataUrl);
+  }
+  return dataUrl;
+};
+
+const externalizeSound = (sound: SoundEffect, assetId: string, batch: AssetBatch): SoundEffect => ({
+  ...sound,
+  url: externalizeUrl(sound.url, assetId, batch) || '',
+});
+
+const externalizeCharacter = (character: Character, batch: AssetBatch): Character => ({
+  ...character,
+  imageUrl: externalizeUrl(character.imageUrl, `${assetPrefix(STORES.CHARACTERS)}${character.id}/image`, batch) || '',
+  references: character.references?.map(reference => ({
+    ...reference,
+    imageUrl: externalizeUrl(reference.imageUrl, `${assetPrefix(STORES.CHARACTERS)}${character.id}/views/${reference.view}`, batch) || '',
+  })),
+});
+
+const externalizeGeneratedContent = (content: GeneratedContent, prefix: string, batch: AssetBatch): GeneratedContent | undefined => {
+  const soundEffectUrl = externalizeUrl(content.soundEffectUrl, `${prefix}/content-sound`, batch);
+  if (content.mediaId) {
+    // The object URL dies with the page; the media blob is the durable copy.
+    return { ...content, url: '', soundEffectUrl };
+  }
+  if (content.url.startsWith('blob:')) {
+    // An object URL without a persisted blob cannot survive a reload.
+    return undefined;
+  }
+  return {
+    ...content,
+    url: externalizeUrl(content.url, `${prefix}/content`, batch) || '',
+    soundEffectUrl,
+  };
+};
+
+const externalizeComposition = <T extends Scene | SceneRevision>(record: T, prefix: string, batch: AssetBatch): T => ({
+  ...record,
+  soundEffect: record.soundEffect && externalizeSound(record.soundEffect, `${prefix}/sound`, batch),
+  generatedContent: record.generatedContent && externalizeGeneratedContent(record.generatedContent, prefix, batch),
+});
+
+const externalizeScene = (scene: Scene, batch: AssetBatch): Scene => {
+  const prefix = `${assetPrefix(STORES.SCENES)}${scene.id}`;
+  return {
+    ...externalizeComposition(scene, prefix, batch),
+    revisions: scene.revisions?.map(revision => externalizeComposition(revision, `${prefix}/revisions/${revision.id}`, batch)),
+  };
+};
+
+/**
+ * Replaces every record in `store` and its namespaced assets in a single transaction.
+ * Conversion happens before the transaction opens so that saves are applied in call order.
+ */
+const replaceRecords = async <T extends { id: string }>(
+  store: RecordStore,
+  records: T[],
+  externalize: (record: T, batch: AssetBatch) => T
+): Promise<void> => {
+  const batch: AssetBatch = { assets: [], idsByUrl: new Map() };
+  const stored = records.map(record => externalize(record, batch));
+
+  const db = await openDatabase();
+  const tx = db.transaction([store, STORES.ASSETS, STORES.META], 'readwrite');
+  const done = transactionDone(tx);
+
+  const recordStore = tx.objectStore(store);
+  recordStore.clear();
+  stored.forEach(record => recordStore.put(record));
+  tx.objectStore(STORES.META).put(currentVersion(STORE_FORMATS[store]), schemaVersionKey(store));
+
+  const assetStore = tx.objectStore(STORES.ASSETS);
+  const prefix = assetPrefix(store);
+  assetStore.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+  batch.assets.forEach(asset => assetStore.put(asset));
+
+  return done;
+};
+
+// Reads and upgrades every record in `store`. Stores written before versioning have no
+// version entry and are treated as version 0.
+const readRecords = async <T>(tx: IDBTransaction, store: RecordStore): Promise<T[]> => {
+  const [records, version] = await Promise.all([
+    requestToPromise<unknown[]>(tx.objectStore(store).getAll()),
+    requestToPromise<number | undefined>(tx.objectStore(STORES.META).get(schemaVersionKey(store))),
+  ]);
+  return records.map(record => migratePayload<T>(STORE_FORMATS[store], version ?? 0, record));
+};
+
+/**
+ * Upgrades each entry under a legacy key on its own and keeps the valid ones, so one bad entry
+ * costs only itself. `complete` is false when the key held something other than an array; it is
+ * then left in localStorage rather than removed with nothing copied.
+ */
+const readLegacyJson = <T>(key: string, format: PayloadFormat, isValid: (value: unknown) => value is T): { records: T[]; complete: boolean } => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return { records: [], complete: true };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    console.error(`Failed to parse legacy "${key}" data`, e);
+    return { records: [], complete: false };
+  }
+  if (!Array.isArray(parsed)) {
+    console.error(`Legacy "${key}" data is not a list`);
+    return { records: [], complete: false };
+  }
+  const records: T[] = [];
+  parsed.forEach((entry, index) => {
+    try {
+      const record = migratePayload<unknown>(format, 0, entry);
+      if (isValid(record)) {
+        records.push(record);
+      } else {
+        console.warn(`Skipped invalid legacy "${key}" entry ${index}`);
+      }
+    } catch (e) {
+      console.warn(`Skipped legacy "${key}" entry ${index}`, e);
+    }
+  });
+  return { records, complete: true };
+};
+
+/**
+ * Copies the libraries that older versions kept in localStorage into IndexedDB.
+ * Runs once; the legacy keys are only removed after the copy has committed.
+ */
+const runMigration = async (): Promise<void> => {
+  const db = await openDatabase();
+  const metaTx = db.transaction(STORES.META, 'readonly');
+  const migrated = await requestToPromise(metaTx.objectStore(STORES.META).get(MIGRATION_FLAG));
+  if (migrated) return;
+
+  const characters = readLegacyJson(LEGACY_KEYS.CHARACTERS, PAYLOAD_FORMATS.CHARACTER, isValidCharacter);
+  const scenes = readLegacyJson(LEGACY_KEYS.SCENES, PAYLOAD_FORMATS.SCENE, isValidScene);
+  const sounds = readLegacyJson(LEGACY_KEYS.SOUNDS, PAYLOAD_FORMATS.SOUND, isValidSoundEffect);
+  await saveCharacters(characters.records);
+  await saveScenes(scenes.records);
+  await saveSoundLibrary(sounds.records);
+
+  const flagTx = db.transaction(STORES.META, 'readwrite');
+  flagTx.objectStore(STORES.META).put(Date.now(), MIGRATION_FLAG);
+  await transactionDone(flagTx);
+
+  // Keys that could not be read at all stay where they are, so nothing is lost with them
+  ([[LEGACY_KEYS.CHARACTERS, characters], [LEGACY_KEYS.SCENES, scenes], [LEGACY_KEYS.SOUNDS, sounds]] as const)
+    .forEach(([key, { complete }]) => {
+      if (complete) localStorage.removeItem(key);
+    });
+};
+
+const migrateFromLocalStorage = (): Promise<void> => {
+  // Shared so that concurrent loads (e.g. StrictMode double effects) never migrate twice.
+  if (!migrationPromise) {
+    migrationPromise = runMigration().catch((e) => {
+      migrationPromise = null;
+      throw e;
+    });
+  }
+  return migrationPromise;
+};
+
+const internalizeSound = async (sound: SoundEffect, reader: AssetReader): Promise<SoundEffect> => ({
+  ...sound,
+  url: (await internalizeUrl(sound.url, reader)) || '',
+});
+
+const internalizeComposition = async <T extends Scene | SceneRevision>(record: T, reader: AssetReader): Promise<T> => ({
+  ...record,
+  soundEffect: record.soundEffect && await internalizeSound(record.soundEffect, reader),
+  generatedContent: record.generatedContent && {
+    ...record.generatedContent,
+    url: (await internalizeUrl(record.generatedContent.url, reader)) || '',
+    soundEffectUrl: await internalizeUrl(record.generatedContent.soundEffectUrl, reader),
+  },
+});
+
+const createAssetReader = (assets: StoredAsset[]): AssetReader => ({
+  blobs: new Map(assets.map(asset => [asset.id, asset.blob])),
+  urls: new Map(),
+});
+
+export const loadLibrary = async (): Promise<LibraryData> => {
+  await migrateFromLocalStorage();
+
+  // Read everything up front: the transaction auto-commits as soon as we await anything
+  // other than its own requests, such as the FileReader used to rebuild data URLs.
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.CHARACTERS, STORES.SCENES, STORES.SOUNDS, STORES.ASSETS, STORES.META], 'readonly');
+  const [storedCharacters, storedScenes, storedSounds, storedAssets] = await Promise.all([
+    readRecords<Character>(tx, STORES.CHARACTERS),
+    readRecords<Scene>(tx, STORES.SCENES),
+    readRecords<SoundEffect>(tx, STORES.SOUNDS),
+    requestToPromise<StoredAsset[]>(tx.objectStore(STORES.ASSETS).getAll()),
+  ]);
+  const reader = createAssetReader(storedAssets);
+
+  const characters = await Promise.all(storedCharacters.map(async (character): Promise<Character> => ({
+    ...character,
+    imageUrl: (await internalizeUrl(character.imageUrl, reader)) || '',
+    references: character.references && await Promise.all(character.references.map(async reference => ({
+      ...reference,
+      imageUrl: (await internalizeUrl(reference.imageUrl, reader)) || '',
+    }))),
+  })));
+
+  const soundLibrary = await Promise.all(storedSounds.map(sound => internalizeSound(sound, reader)));
+
+  const scenes = await Promise.all(storedScenes.map(async (scene): Promise<Scene> => ({
+    ...await internalizeComposition(scene, reader),
+    revisions: scene.revisions && await Promise.all(scene.revisions.map(revision => internalizeComposition(revision, reader))),
+  })));
+
+  // getAll returns records in key order; scenes are shown newest first.
+  scenes.sort((a, b) => b.createdAt - a.createdAt);
+
+  return { characters, scenes, soundLibrary };
+};
+
+export const saveCharacters = (characters: Character[]): Promise<void> => {
+  return replaceRecords(STORES.CHARACTERS, characters, externalizeCharacter);
+};
+
+export const saveScenes = (scenes: Scene[]): Promise<void> => {
+  return replaceRecords(STORES.SCENES, scenes, externalizeScene);
+};
+
+export const saveSoundLibrary = (sounds: SoundEffect[]): Promise<void> => {
+  return replaceRecords(STORES.SOUNDS, sounds, (sound, batch) =>
+    externalizeSound(sound, `${assetPrefix(STORES.SOUNDS)}${sound.id}`, batch)
+  );
+};
+
+export const saveMediaBlob = async (blob: Blob): Promise<string> => {
+  const mediaId = `${MEDIA_PREFIX}${crypto.randomUUID()}`;
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ASSETS, 'readwrite');
+  tx.objectStore(STORES.ASSETS).put({ id: mediaId, blob, createdAt: Date.now() } as StoredAsset);
+  await transactionDone(tx);
+  return mediaId;
+};
+
+export const loadMediaBlob = async (mediaId: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ASSETS, 'readonly');
+  const asset = await requestToPromise<StoredAsset | undefined>(tx.objectStore(STORES.ASSETS).get(mediaId));
+  return asset?.blob;
+};
+
+/**
+ * Persists the blob behind a generated video/audio object URL so the result can be restored
+ * after a reload. Content that is already persisted, or is a self-contained data URL, is returned as is.
+ */
+export const persistGeneratedMedia = async (content: GeneratedContent): Promise<GeneratedContent> => {
+  if (content.mediaId || !content.url.startsWith('blob:')) return content;
+
+  const response = await fetch(content.url);
+  const mediaId = await saveMediaBlob(await response.blob());
+  return { ...content, mediaId };
+};
+
+/**
+ * Creates a fresh object URL for persisted media. The caller owns the URL and must revoke it.
+ * Returns null when the media blob is missing.
+ */
+export const restoreGeneratedMedia = async (content: GeneratedContent): Promise<GeneratedContent | null> => {
+  if (!content.mediaId) return content;
+
+  const blob = await loadMediaBlob(content.mediaId);
+  if (!blob) {
+    console.warn(`Missing stored media "${content.mediaId}"`);
+    return null;
+  }
+  return { ...content, url: URL.createObjectURL(blob) };
+};
+
+const autosavePrefix = (slotId: string) => `${assetPrefix(STORES.AUTOSAVES)}${slotId}`;
+
+let legacyAutosavePromise: Promise<void> | null = null;
+
+// Moves the single localStorage snapshot written by older versions into the first slot.
+const runLegacyAutosaveMigration = async (): Promise<void> => {
+  const raw = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+  if (!raw) return;
+  try {
+    const { data } = unwrapPayload(JSON.parse(raw), [PAYLOAD_FORMATS.AUTOSAVE]);
+    await writeAutosaveSlot(data as AutosaveSlot, Infinity);
+  } catch (e) {
+    console.error("Failed to migrate legacy autosave", e);
+  }
+  localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+};
+
+const migrateLegacyAutosave = (): Promise<void> => {
+  if (!legacyAutosavePromise) {
+    legacyAutosavePromise = runLegacyAutosaveMigration();
+  }
+  return legacyAutosavePromise;
+};
+
+/**
+ * Returns the autosave slots, newest first.
+ */
+export const loadAutosaves = async (): Promise<AutosaveSlot[]> => {
+  await migrateLegacyAutosave();
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.AUTOSAVES, STORES.ASSETS, STORES.META], 'readonly');
+  const prefix = assetPrefix(STORES.AUTOSAVES);
+  const [storedSlots, storedAssets] = await Promise.all([
+    readRecords<AutosaveSlot>(tx, STORES.AUTOSAVES),
+    requestToPromise<StoredAsset[]>(tx.objectStore(STORES.ASSETS).getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`))),
+  ]);
+  const reader = createAssetReader(storedAssets);
+
+  const slots = await Promise.all(storedSlots.map(slot => internalizeComposition(slot, reader)));
+  return slots.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Writes a new autosave slot and drops the oldest ones beyond `maxSlots`, with their assets.
+ * Generated video/audio must already be persisted (see `persistGeneratedMedia`) to be kept.
+ */
+export const writeAutosaveSlot = async (slot: AutosaveSlot, maxSlots: number): Promise<void> => {
+  const batch: AssetBatch = { assets: [], idsByUrl: new Map() };
+  const stored = externalizeComposition(slot, autosavePrefix(slot.id), batch);
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.AUTOSAVES, STORES.SCENES, STORES.ASSETS, STORES.META], 'readwrite');
+  const done = transactionDone(tx);
+
+  const slotStore = tx.objectStore(STORES.AUTOSAVES);
+  const assetStore = tx.objectStore(STORES.ASSETS);
+  slotStore.put(stored);
+  batch.assets.forEach(asset => assetStore.put(asset));
+  tx.objectStore(STORES.META).put(currentVersion(PAYLOAD_FORMATS.AUTOSAVE), schemaVersionKey(STORES.AUTOSAVES));
+
+  const [slots, scenes] = await Promise.all([
+    requestToPromise<AutosaveSlot[]>(slotStore.getAll()),
+    requestToPromise<Scene[]>(tx.objectStore(STORES.SCENES).getAll()),
+  ]);
+  const sorted = slots.sort((a, b) => b.savedAt - a.savedAt);
+  const expiredSlots = sorted.slice(maxSlots);
+  if (expiredSlots.length === 0) return done;
+
+  // Persisted media is shared by id, so it only goes once no remaining slot or scene refers to it
+  const keptIds = new Set<string>();
+  collectAssetIds([...sorted.slice(0, maxSlots), ...scenes], keptIds);
+  expiredSlots.forEach(expired => {
+    slotStore.delete(expired.id);
+    const prefix = autosavePrefix(expired.id);
+    assetStore.delete(IDBKeyRange.bound(`${prefix}/`, `${prefix}/\uffff`));
+    const expiredIds = new Set<string>();
+    collectAssetIds(expired, expiredIds);
+    expiredIds.forEach(id => {
+      if (id.startsWith(MEDIA_PREFIX) && !keptIds.has(id)) assetStore.delete(id);
+    });
+  });
+
+  return done;
+};
+
+export type StorageCategory = 'characters' | 'scenes' | 'sounds' | 'autosaves';
+
+export interface StorageItemUsage {
+  id: string;
+  category: StorageCategory;
+  label: string;
+  bytes: number;
+}
+
+export interface OrphanedAsset {
+  id: string;
+  bytes: number;
+}
+
+export interface StorageReport {
+  items: StorageItemUsage[];
+  totals: Record<StorageCategory, number>;
+  // Stored blobs that no record (or the caller) references any more
+  orphanedAssets: OrphanedAsset[];
+  // Browser-wide usage for this origin, when the Storage API is available
+  estimate?: { usage: number; quota: number };
+}
+
+const REPORT_CATEGORIES: Record<RecordStore, StorageCategory> = {
+  [STORES.CHARACTERS]: 'characters',
+  [STORES.SCENES]: 'scenes',
+  [STORES.SOUNDS]: 'sounds',
+  [STORES.AUTOSAVES]: 'autosaves',
+};
+
+// Asset references (`asset:<id>`) and persisted media ids anywhere inside a stored record
+const collectAssetIds = (value: unknown, ids: Set<string>) => {
+  if (typeof value === 'string') {
+    if (value.startsWith(ASSET_REF_PREFIX)) ids.add(value.slice(ASSET_REF_PREFIX.length));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectAssetIds(item, ids));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key === 'mediaId' && typeof item === 'string') {
+        ids.add(item);
+      } else {
+        collectAssetIds(item, ids);
+      }
+    });
+  }
+};
+
+// Media is persisted before the scene or autosave that refers to it is written, possibly by
+// another tab, so recent media is never reported as orphaned
+const MEDIA_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+type StoredRecord = Character | Scene | SoundEffect | AutosaveSlot;
+
+// Autosave slots are the only records without a name
+const recordLabel = (record: StoredRecord): string =>
+  'name' in record ? record.name || 'Untitled' : `Autosave ${new Date(record.savedAt).toLocaleString()}`;
+
+/**
+ * Measures what each stored record costs: its own JSON plus every asset it references.
+ * Media shared between records (e.g. a scene and an autosave of it) counts towards each of them.
+ * `inUseIds` are asset ids referenced from outside storage, such as the media shown in the canvas
+ * or held by job results, which must not be reported as orphaned.
+ */
+export const getStorageReport = async (inUseIds: string[] = []): Promise<StorageReport> => {
+  const db = await openDatabase();
+  const recordStores: RecordStore[] = [STORES.CHARACTERS, STORES.SCENES, STORES.SOUNDS, STORES.AUTOSAVES];
+  const tx = db.transaction([...recordStores, STORES.ASSETS], 'readonly');
+  const [recordsByStore, assets] = await Promise.all([
+    Promise.all(recordStores.map(store => requestToPromise<StoredRecord[]>(tx.objectStore(store).getAll()))),
+    requestToPromise<StoredAsset[]>(tx.objectStore(STORES.ASSETS).getAll()),
+  ]);
+
+  const assetSizes = new Map(assets.map(asset => [asset.id, asset.blob.size]));
+  const referenced = new Set(inUseIds);
+  const items: StorageItemUsage[] = [];
+  const totals: Record<StorageCategory, number> = { characters: 0, scenes: 0, sounds: 0, autosaves: 0 };
+
+  recordStores.forEach((store, index) => {
+    recordsByStore[index].forEach(record => {
+      const ids = new Set<string>();
+      collectAssetIds(record, ids);
+      let bytes = JSON.stringify(record).length;
+      ids.forEach(id => {
+        referenced.add(id);
+        bytes += assetSizes.get(id) || 0;
+      });
+      const category = REPORT_CATEGORIES[store];
+      items.push({ id: record.id, category, label: recordLabel(record), bytes });
+      totals[category] += bytes;
+    });
+  });
+
+  const orphanedAssets = assets
+    .filter(asset => !referenced.has(asset.id))
+    .filter(asset => !asset.id.startsWith(MEDIA_PREFIX) || !asset.createdAt || Date.now() - asset.createdAt > MEDIA_GRACE_PERIOD_MS)
+    .map(asset => ({ id: asset.id, bytes: asset.blob.size }));
+
+  let estimate: StorageReport['estimate'];
+  if (navigator.storage?.estimate) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    estimate = { usage, quota };
+  }
+
+  return { items: items.sort((a, b) => b.bytes - a.bytes), totals, orphanedAssets, estimate };
+};
+
+export const deleteAssets = async (assetIds: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ASSETS, 'readwrite');
+  const store = tx.objectStore(STORES.ASSETS);
+  assetIds.forEach(id => store.delete(id));
+  return transactionDone(tx);
+};
+
+const readCacheIndex = async (tx: IDBTransaction): Promise<CacheIndex> => {
+  const index = await requestToPromise<CacheIndex | undefined>(tx.objectStore(STORES.META).get(CACHE_INDEX_KEY));
+  if (index) return index;
+  // Results cached before the index existed cannot be accounted for; they are only a cache
+  if (tx.mode === 'readwrite') tx.objectStore(STORES.CACHE).clear();
+  return {};
+};
+
+// All-or-nothing: returns the blobs only when every key is cached
+export const getCachedResults = async (keys: string[]): Promise<Blob[] | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.CACHE, STORES.META], 'readwrite');
+  const store = tx.objectStore(STORES.CACHE);
+  const [index, entries] = await Promise.all([
+    readCacheIndex(tx),
+    Promise.all(keys.map(key => requestToPromise<CachedResult | undefined>(store.get(key)))),
+  ]);
+  const found = entries.filter((entry): entry is CachedResult => !!entry && !!index[entry.id]);
+  const now = Date.now();
+  if (found.length === keys.length) {
+    found.forEach(entry => { index[entry.id] = { ...index[entry.id], lastUsedAt: now }; });
+    tx.objectStore(STORES.META).put(index, CACHE_INDEX_KEY);
+  }
+  await transactionDone(tx);
+  return found.length === keys.length ? found.map(entry => entry.blob) : undefined;
+};
+
+/**
+ * Stores results, then evicts the least recently used entries until the cache fits in
+ * `maxBytes`. Results larger than the limit on their own are not kept at all.
+ */
+export const putCachedResults = async (results: { key: string; blob: Blob }[], maxBytes: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.CACHE, STORES.META], 'readwrite');
+  const store = tx.objectStore(STORES.CACHE);
+  const now = Date.now();
+  const index = await readCacheIndex(tx);
+  const added = results.map(({ key, blob }): CachedResult => ({ id: key, blob, size: blob.size, createdAt: now }));
+  added.forEach(entry => { index[entry.id] = { size: entry.size, lastUsedAt: now }; });
+
+  let total = Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+  const evicted = new Set<string>();
+  for (const [id, entry] of Object.entries(index).sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= maxBytes) break;
+    evicted.add(id);
+    total -= entry.size;
+  }
+
+  added.filter(entry => !evicted.has(entry.id)).forEach(entry => store.put(entry));
+  evicted.forEach(id => {
+    store.delete(id);
+    delete index[id];
+  });
+  tx.objectStore(STORES.META).put(index, CACHE_INDEX_KEY);
+  return transactionDone(tx);
+};
+
+export const getResultCacheUsage = async (): Promise<{ entries: number; bytes: number }> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.CACHE, STORES.META], 'readonly');
+  const entries = Object.values(await readCacheIndex(tx));
+  return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+export const clearResultCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.CACHE, STORES.META], 'readwrite');
+  tx.objectStore(STORES.CACHE).clear();
+  tx.objectStore(STORES.META).put({}, CACHE_INDEX_KEY);
+  return transactionDone(tx);
+};
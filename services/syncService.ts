@@ -0,0 +1,83 @@
+import { Character, Scene, SoundEffect } from '../types';
+
+/**
+ * Cross-tab synchronization of the library.
+ *
+ * Each tab broadcasts what changed in a collection (upserted records and deleted ids) after it
+ * persists it. Other tabs merge the delta into their own state instead of reloading everything,
+ * so edits made in both tabs at once are combined rather than the last writer winning.
+ */
+
+const CHANNEL_NAME = 'css_library_sync';
+
+export interface LibraryCollections {
+  characters: Character[];
+  scenes: Scene[];
+  soundLibrary: SoundEffect[];
+}
+
+export type SyncCollection = keyof LibraryCollections;
+
+export interface CollectionDelta<T> {
+  upserts: T[];
+  deletedIds: string[];
+}
+
+export type SyncMessage = {
+  [K in SyncCollection]: { collection: K; delta: CollectionDelta<LibraryCollections[K][number]> };
+}[SyncCollection];
+
+export interface SyncChannel {
+  broadcast: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Records are compared by reference: state updates keep unchanged records as the same object,
+ * so anything that is not identical has been created or edited.
+ */
+export const diffCollection = <T extends { id: string }>(previous: T[], next: T[]): CollectionDelta<T> => {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  return {
+    upserts: next.filter(item => previousById.get(item.id) !== item),
+    deletedIds: previous.filter(item => !nextIds.has(item.id)).map(item => item.id),
+  };
+};
+
+export const isEmptyDelta = (delta: CollectionDelta<unknown>) =>
+  delta.upserts.length === 0 && delta.deletedIds.length === 0;
+
+/**
+ * Applies a delta from another tab. Updated records stay in place; new records are added at
+ * the start or the end to match how the collection is ordered.
+ */
+export const applyDelta = <T extends { id: string }>(items: T[], delta: CollectionDelta<T>, insertAt: 'start' | 'end' = 'end'): T[] => {
+  const upsertsById = new Map(delta.upserts.map(item => [item.id, item]));
+  const deleted = new Set(delta.deletedIds);
+  const merged = items
+    .filter(item => !deleted.has(item.id))
+    .map(item => upsertsById.get(item.id) ?? item);
+  const existingIds = new Set(items.map(item => item.id));
+  const added = delta.upserts.filter(item => !existingIds.has(item.id));
+  return insertAt === 'start' ? [...added, ...merged] : [...merged, ...added];
+};
+
+export const createSyncChannel = (onMessage: (message: SyncMessage) => void): SyncChannel => {
+  if (typeof BroadcastChannel === 'undefined') {
+    // Without BroadcastChannel each tab works on its own copy, as before.
+    return { broadcast: () => {}, close: () => {} };
+  }
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+  return {
+    broadcast: (message) => {
+      try {
+        channel.postMessage(message);
+      } catch (e) {
+        console.error("Failed to broadcast library change", e);
+      }
+    },
+    close: () => channel.close(),
+  };
+};
@@ -2,8 +2,17 @@
 export interface Character {
   id: string;
   name: string;
-  imageUrl: string; // base64 data URL
+  imageUrl: string; // base64 data URL, the front view
   prompt: string;
+  // Further angles of the character, one per view
+  references?: CharacterReference[];
+}
+
+export type CharacterView = 'front' | 'side' | 'back' | 'close-up' | 'full-body';
+
+export interface CharacterReference {
+  view: CharacterView;
+  imageUrl: string; // base64 data URL
 }
 
 export interface SoundEffect {
@@ -16,11 +25,51 @@ export type ToolType = 'SCENE_BUILDER' | 'IMAGE_GENERATOR' | 'IMAGE_EDITOR' | 'V
 
 export type AspectRatio = '16:9' | '9:16';
 
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
 export interface GeneratedContent {
   type: 'image' | 'video' | 'audio';
   url: string;
   characterId?: string;
   soundEffectUrl?: string;
+  mediaId?: string; // persisted blob backing a video/audio object URL
+  provenance?: GenerationProvenance;
+}
+
+// How a result was produced, recorded by the generation service when the result comes in
+export interface GenerationProvenance {
+  provider: ProviderId;
+  model: string;
+  // The prompt text exactly as sent to the model
+  prompt: string;
+  characterIds?: string[];
+  rotations?: Record<string, number>;
+  soundEffectId?: string;
+  // Uploaded file the result was made from
+  sourceImageName?: string;
+  params: Record<string, string | number | boolean | undefined>;
+  createdAt: number;
+  durationMs: number;
+  // Served from the result cache; `durationMs` is then the time the lookup took
+  cached?: boolean;
+}
+
+// Snapshot of a scene's composition taken each time it is saved
+export interface SceneRevision {
+  id: string;
+  savedAt: number;
+  characterIds: string[];
+  prompt: string;
+  soundEffect?: SoundEffect;
+  rotations?: Record<string, number>;
+  positions?: Record<string, { x: number; y: number }>;
+  aspectRatio?: ImageAspectRatio; // 1:1 when unset
+  generatedContent?: GeneratedContent;
+}
+
+// Rolling snapshot of the scene builder, written periodically so work can be recovered after a crash
+export interface AutosaveSlot extends SceneRevision {
+  currentSceneId: string | null;
 }
 
 export interface Scene {
@@ -32,8 +81,72 @@ export interface Scene {
   soundEffect?: SoundEffect;
   rotations?: Record<string, number>;
   positions?: Record<string, { x: number; y: number }>;
+  aspectRatio?: ImageAspectRatio; // 1:1 when unset
   generatedContent?: GeneratedContent;
+  revisions?: SceneRevision[]; // oldest first
+}
+
+// A scene exported together with everything it references, so it can be opened in another library.
+// Media in the bundle (character images, sound, generated output) is inlined as data URLs.
+export interface SceneBundle {
+  scene: Scene;
+  characters: Character[];
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Base64 image payload sent to a provider
+export interface InlineImage {
+  data: string;
+  mimeType: string;
 }
+
+// Output settings a provider applies itself rather than through the prompt text
+export interface ImageParams {
+  aspectRatio?: ImageAspectRatio;
+  seed?: number;
+}
+
+export interface VideoParams {
+  aspectRatio: AspectRatio;
+  seed?: number;
+}
+
+/**
+ * Backend that performs the actual generation. Prompts arrive fully prepared; providers only
+ * talk to their model and hand back data URLs (images) or Blobs (audio, video).
+ * Every call stops, rejecting with a cancellation error, once `signal` aborts.
+ */
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  describeImage: (image: InlineImage, instruction: string, signal?: AbortSignal) => Promise<string>;
+  // Image generation returns `count` alternative candidates
+  generateImage: (prompt: string, mimeType: 'image/jpeg' | 'image/png', count: number, params: ImageParams, signal?: AbortSignal) => Promise<string[]>;
+  composeScene: (images: InlineImage[], prompt: string, count: number, params: ImageParams, signal?: AbortSignal) => Promise<string[]>;
+  editImage: (image: InlineImage, prompt: string, params: ImageParams, signal?: AbortSignal) => Promise<string>;
+  generateSpeech: (text: string, voiceName: string, signal?: AbortSignal) => Promise<Blob>;
+  // `onOperationStarted` receives the server-side operation name, for providers that have one
+  generateVideo: (image: InlineImage, prompt: string, params: VideoParams, onProgress: (message: string) => void, signal?: AbortSignal, onOperationStarted?: (operationName: string) => void) => Promise<Blob>;
+  // Picks up polling of an operation started by `generateVideo`, e.g. after a page reload.
+  // `model` is the one the operation was started with.
+  resumeVideo: (operationName: string, model: string, onProgress: (message: string) => void, signal?: AbortSignal) => Promise<Blob>;
+}
+
+// A video generation whose server-side operation may still be running, kept so it survives a reload
+export interface PendingVideoOperation {
+  id: string;
+  provider: ProviderId;
+  operationName: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageName: string;
+  // Missing on handles stored before models could be chosen
+  model?: string;
+  startedAt: number;
+}
+
+
 export interface Window {
     aistudio?: {
         hasSelectedApiKey: () => Promise<boolean>;
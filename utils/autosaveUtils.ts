@@ -0,0 +1,56 @@
+import { AutosaveSlot } from '../types';
+
+// Older slots roll off once this many have been written.
+export const MAX_AUTOSAVE_SLOTS = 5;
+
+const INTERVAL_KEY = 'css_autosave_interval';
+
+// Interval in milliseconds; 0 turns autosave off.
+export const AUTOSAVE_INTERVAL_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Off', value: 0 },
+  { label: '30 sec', value: 30000 },
+  { label: '1 min', value: 60000 },
+  { label: '2 min', value: 120000 },
+  { label: '5 min', value: 300000 },
+];
+
+export const DEFAULT_AUTOSAVE_INTERVAL = 60000;
+
+export const loadAutosaveInterval = (): number => {
+  const raw = localStorage.getItem(INTERVAL_KEY);
+  const stored = raw === null ? NaN : Number(raw);
+  return AUTOSAVE_INTERVAL_OPTIONS.some(option => option.value === stored) ? stored : DEFAULT_AUTOSAVE_INTERVAL;
+};
+
+export const saveAutosaveInterval = (interval: number) => {
+  localStorage.setItem(INTERVAL_KEY, String(interval));
+};
+
+type Composition = Omit<AutosaveSlot, 'id' | 'savedAt'>;
+
+// What a composition holds, with generated media identified by its stored id where it has one,
+// since a restored video or audio result gets a fresh object URL
+const compositionKey = (c: Composition) => JSON.stringify([
+  c.prompt, c.characterIds, c.rotations, c.positions, c.aspectRatio, c.currentSceneId,
+  c.soundEffect?.id, c.generatedContent?.mediaId || c.generatedContent?.url,
+]);
+
+/**
+ * Builder state is replaced rather than mutated on every edit, so unchanged references are a
+ * cheap first check. Otherwise the contents are compared, which also matches a slot loaded from
+ * storage against the builder it was restored into.
+ */
+export const isSameComposition = (a: Composition, b: Composition) =>
+  (a.characterIds === b.characterIds &&
+    a.prompt === b.prompt &&
+    a.soundEffect === b.soundEffect &&
+    a.rotations === b.rotations &&
+    a.positions === b.positions &&
+    a.aspectRatio === b.aspectRatio &&
+    a.currentSceneId === b.currentSceneId &&
+    a.generatedContent?.url === b.generatedContent?.url) ||
+  compositionKey(a) === compositionKey(b);
+
+// A blank builder, not worth a slot of its own
+export const isEmptyComposition = (c: Composition) =>
+  !c.prompt.trim() && c.characterIds.length === 0 && !c.soundEffect && !c.generatedContent;
@@ -0,0 +1,80 @@
+import { Character, CharacterReference, CharacterView } from '../types';
+
+/**
+ * Reference sheets: a character's main image is its front view, and `references` can add the
+ * other angles. Scene generation sends the front view of every character plus whichever other
+ * views the scene prompt calls for.
+ */
+
+export const CHARACTER_VIEWS: CharacterView[] = ['front', 'side', 'back', 'close-up', 'full-body'];
+
+export const CHARACTER_VIEW_LABELS: Record<CharacterView, string> = {
+  front: 'Front',
+  side: 'Side',
+  back: 'Back',
+  'close-up': 'Close-up',
+  'full-body': 'Full body',
+};
+
+// How each view is asked for when generating a turnaround
+export const CHARACTER_VIEW_DESCRIPTIONS: Record<CharacterView, string> = {
+  front: 'seen from the front, facing the viewer',
+  side: 'seen from the side in profile, facing left',
+  back: 'seen from directly behind',
+  'close-up': 'in a close-up of the head and shoulders, facing the viewer',
+  'full-body': 'standing in a neutral pose with the full body visible from head to toe',
+};
+
+// Wording in a scene prompt that makes a view worth sending, checked in this order
+const VIEW_KEYWORDS: [CharacterView, RegExp][] = [
+  ['back', /\b(from behind|back view|rear view|walking away|turned away|turns away|(his|her|their|its) back)\b/i],
+  ['side', /\b(side view|from the side|profile|sideways|side by side|walking past)\b/i],
+  ['close-up', /\b(close[- ]?up|portrait|headshot|face|expression|smil\w*|eyes)\b/i],
+  ['full-body', /\b(full[- ]?body|full[- ]length|head to toe|standing|walking|running|jumping|dancing|fighting|sitting|posing)\b/i],
+];
+
+// The main image as the front view, followed by the extra views
+export const getCharacterViews = (character: Character): CharacterReference[] => [
+  { view: 'front', imageUrl: character.imageUrl },
+  ...(character.references || []).filter(reference => reference.view !== 'front'),
+];
+
+export const getMissingViews = (references: CharacterReference[] = []): CharacterView[] =>
+  CHARACTER_VIEWS.filter(view => view !== 'front' && !references.some(reference => reference.view === view));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Picks the images to send for each character: always the front view, then the views the prompt
+ * asks for. A sentence that names characters only counts for them; other sentences count for
+ * everyone. Extra views are handed out one per character in turn until `maxImages` is reached.
+ */
+export const selectReferenceViews = (characters: Character[], prompt: string, maxImages: number): Map<string, CharacterReference[]> => {
+  const sentences = prompt.split(/[.!?\n]+/).filter(sentence => sentence.trim());
+  const namePatterns = new Map(characters.map(character => [character.id, new RegExp(`\\b${escapeRegExp(character.name)}\\b`, 'i')]));
+  const namesAnyone = (sentence: string) => characters.some(character => namePatterns.get(character.id)!.test(sentence));
+
+  const wanted = characters.map(character => {
+    const text = sentences
+      .filter(sentence => namePatterns.get(character.id)!.test(sentence) || !namesAnyone(sentence))
+      .join('. ');
+    const available = getCharacterViews(character);
+    return VIEW_KEYWORDS
+      .filter(([, pattern]) => pattern.test(text))
+      .map(([view]) => available.find(reference => reference.view === view))
+      .filter((reference): reference is CharacterReference => reference !== undefined);
+  });
+
+  const selected = new Map(characters.map(character => [character.id, getCharacterViews(character).slice(0, 1)]));
+  let budget = maxImages - characters.length;
+  for (let rank = 0; budget > 0 && wanted.some(views => views.length > rank); rank++) {
+    characters.forEach((character, index) => {
+      const reference = wanted[index][rank];
+      if (reference && budget > 0) {
+        selected.get(character.id)!.push(reference);
+        budget--;
+      }
+    });
+  }
+  return selected;
+};
@@ -0,0 +1,63 @@
+import { Character, Scene, SoundEffect } from '../types';
+
+// What a storage clean-up removes: unreferenced stored files, unused library sounds, and the
+// dangling character references in the given scenes.
+export interface CleanupPlan {
+  assetIds: string[];
+  soundIds: string[];
+  sceneIds: string[];
+}
+
+export interface DanglingReference {
+  scene: Scene;
+  // Characters the scene (or one of its revisions) still lists but that no longer exist
+  missingIds: string[];
+}
+
+/**
+ * Scenes whose composition or revision history refers to deleted characters.
+ */
+export const findDanglingReferences = (scenes: Scene[], characters: Character[]): DanglingReference[] => {
+  const existing = new Set(characters.map(c => c.id));
+  return scenes
+    .map(scene => {
+      const referenced = [scene.characterIds, ...(scene.revisions || []).map(r => r.characterIds)].flat();
+      return { scene, missingIds: [...new Set(referenced.filter(id => !existing.has(id)))] };
+    })
+    .filter(ref => ref.missingIds.length > 0);
+};
+
+/**
+ * Library sounds that no scene or revision uses. `inUseIds` covers references held elsewhere,
+ * such as the sound selected in the Scene Builder.
+ */
+export const findUnusedSounds = (soundLibrary: SoundEffect[], scenes: Scene[], inUseIds: string[] = []): SoundEffect[] => {
+  const used = new Set(inUseIds);
+  scenes.forEach(scene => {
+    if (scene.soundEffect) used.add(scene.soundEffect.id);
+    scene.revisions?.forEach(revision => {
+      if (revision.soundEffect) used.add(revision.soundEffect.id);
+    });
+  });
+  return soundLibrary.filter(sound => !used.has(sound.id));
+};
+
+const withoutKeys = <T>(record: Record<string, T> | undefined, ids: Set<string>) =>
+  record && Object.fromEntries(Object.entries(record).filter(([id]) => !ids.has(id)));
+
+/**
+ * Drops the given characters from a scene and its revisions, along with their transforms.
+ */
+export const removeCharacterReferences = (scene: Scene, characterIds: string[]): Scene => {
+  const ids = new Set(characterIds);
+  const strip = <T extends Pick<Scene, 'characterIds' | 'rotations' | 'positions'>>(record: T): T => ({
+    ...record,
+    characterIds: record.characterIds.filter(id => !ids.has(id)),
+    rotations: withoutKeys(record.rotations, ids),
+    positions: withoutKeys(record.positions, ids),
+  });
+  return {
+    ...strip(scene),
+    revisions: scene.revisions?.map(strip),
+  };
+};
@@ -1,4 +1,5 @@
 import { Part } from "@google/genai";
+import { base64ToUint8Array } from "./audioUtils";
 
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -47,4 +48,37 @@ export const readJsonFile = (file: File): Promise<any> => {
     reader.onerror = (error) => reject(error);
     reader.readAsText(file);
   });
-};
\ No newline at end of file
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const matches = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!matches) {
+    throw new Error("Invalid data URL.");
+  }
+  const mimeType = matches[1] || 'application/octet-stream';
+  if (!matches[2]) {
+    return new Blob([decodeURIComponent(matches[3])], { type: mimeType });
+  }
+  return new Blob([base64ToUint8Array(matches[3])], { type: mimeType });
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,75 @@
+import { Character } from '../types';
+
+export type ImportStatus = 'new' | 'identical' | 'conflict';
+
+// 'skip' keeps the library as it is; 'copy' imports the incoming character under a fresh id.
+export type ImportAction = 'skip' | 'import' | 'replace' | 'copy';
+
+export interface CharacterImportItem {
+  incoming: Character;
+  existing?: Character;
+  // `existing` is an earlier entry of the imported file rather than a library character
+  existingInFile?: boolean;
+  status: ImportStatus;
+  action: ImportAction;
+}
+
+const referenceKey = (character: Character) =>
+  (character.references || []).map(reference => `${reference.view}:${reference.imageUrl}`).sort().join('|');
+
+export const isSameCharacter = (a: Character, b: Character) =>
+  a.name === b.name && a.prompt === b.prompt && a.imageUrl === b.imageUrl && referenceKey(a) === referenceKey(b);
+
+export const DEFAULT_IMPORT_ACTIONS: Record<ImportStatus, ImportAction> = {
+  new: 'import',
+  identical: 'skip',
+  conflict: 'copy',
+};
+
+/**
+ * Compares incoming characters against the library by id. A file can repeat an id too, so
+ * each entry is also compared with the entries before it in the same file.
+ */
+export const classifyCharacterImport = (incoming: Character[], library: Character[]): CharacterImportItem[] => {
+  return incoming.map((character, index) => {
+    const inLibrary = library.find(c => c.id === character.id);
+    const existing = inLibrary || incoming.slice(0, index).find(c => c.id === character.id);
+    let status: ImportStatus = 'new';
+    if (existing) {
+      status = isSameCharacter(existing, character) ? 'identical' : 'conflict';
+    }
+    return {
+      incoming: character,
+      existing,
+      ...(existing && !inLibrary && { existingInFile: true }),
+      status,
+      action: DEFAULT_IMPORT_ACTIONS[status],
+    };
+  });
+};
+
+export const applyCharacterImport = (library: Character[], items: CharacterImportItem[]): Character[] => {
+  const result = [...library];
+  items.forEach(({ incoming, action }) => {
+    switch (action) {
+      case 'import':
+        result.push(incoming);
+        break;
+      case 'replace': {
+        const index = result.findIndex(c => c.id === incoming.id);
+        if (index >= 0) {
+          result[index] = incoming;
+        } else {
+          result.push(incoming);
+        }
+        break;
+      }
+      case 'copy':
+        result.push({ ...incoming, id: crypto.randomUUID(), name: `${incoming.name} (copy)` });
+        break;
+      case 'skip':
+        break;
+    }
+  });
+  return result;
+};
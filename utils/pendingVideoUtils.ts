@@ -0,0 +1,79 @@
+import { PendingVideoOperation } from '../types';
+
+const PENDING_VIDEOS_KEY = 'css_pending_videos';
+
+// The API only keeps long-running operations for about two days; older handles are dropped.
+const MAX_PENDING_AGE_MS = 2 * 24 * 60 * 60 * 1000;
+
+export const loadPendingVideos = (): PendingVideoOperation[] => {
+  try {
+    const raw = localStorage.getItem(PENDING_VIDEOS_KEY);
+    const pending: PendingVideoOperation[] = raw ? JSON.parse(raw) : [];
+    return pending.filter(item => Date.now() - item.startedAt < MAX_PENDING_AGE_MS);
+  } catch (e) {
+    console.error("Failed to read pending video generations", e);
+    return [];
+  }
+};
+
+const writePendingVideos = (pending: PendingVideoOperation[]) => {
+  try {
+    if (pending.length > 0) {
+      localStorage.setItem(PENDING_VIDEOS_KEY, JSON.stringify(pending));
+    } else {
+      localStorage.removeItem(PENDING_VIDEOS_KEY);
+    }
+  } catch (e) {
+    console.error("Failed to store pending video generations", e);
+  }
+};
+
+export const savePendingVideo = (operation: PendingVideoOperation) => {
+  writePendingVideos([...loadPendingVideos().filter(item => item.id !== operation.id), operation]);
+};
+
+export const removePendingVideo = (id: string) => {
+  writePendingVideos(loadPendingVideos().filter(item => item.id !== id));
+};
+
+/**
+ * Whichever tab polls an operation holds a Web Lock named after it for as long as it does. The
+ * lock is released when that tab closes or reloads, so a held lock means the operation is being
+ * finished elsewhere and must not be polled, downloaded and billed a second time.
+ */
+const lockName = (operationName: string) => `css_video_operation:${operationName}`;
+
+const hasLocks = () => typeof navigator !== 'undefined' && 'locks' in navigator;
+
+// Resolves with a release function, or null when another tab already holds the operation
+export const claimPendingVideo = (operationName: string): Promise<(() => void) | null> => {
+  // Without Web Locks there is no way to tell, so every tab may resume, as before
+  if (!hasLocks()) return Promise.resolve(() => {});
+  return new Promise(resolve => {
+    navigator.locks.request(lockName(operationName), { ifAvailable: true }, lock => {
+      if (!lock) {
+        resolve(null);
+        return;
+      }
+      return new Promise<void>(release => resolve(() => release()));
+    }).catch(e => {
+      console.error("Failed to claim a pending video generation", e);
+      resolve(() => {});
+    });
+  });
+};
+
+// Handles that no open tab is polling, i.e. those whose tab was closed or reloaded
+export const loadUnclaimedPendingVideos = async (): Promise<PendingVideoOperation[]> => {
+  const pending = loadPendingVideos();
+  if (!hasLocks() || pending.length === 0) return pending;
+  try {
+    // Requests still waiting count too: a tab that just started an operation asks for its lock right away
+    const { held = [], pending: requested = [] } = await navigator.locks.query();
+    const claimedNames = new Set([...held, ...requested].map(lock => lock.name));
+    return pending.filter(item => !claimedNames.has(lockName(item.operationName)));
+  } catch (e) {
+    console.error("Failed to check which video generations are running in other tabs", e);
+    return pending;
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * Writes text metadata into PNG files. Each entry becomes a `tEXt` chunk, or an `iTXt` chunk
+ * when the text is not Latin-1 (prompts often are not), inserted right after the header.
+ */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const isLatin1 = (text: string) => /^[\x00-\xff]*$/.test(text);
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const createTextChunk = (keyword: string, text: string): Uint8Array => {
+  if (isLatin1(text)) {
+    return createChunk('tEXt', new Uint8Array([...latin1(keyword), 0, ...latin1(text)]));
+  }
+  // Keyword, then: not compressed, no compression method, empty language tag and translated keyword
+  return createChunk('iTXt', new Uint8Array([...latin1(keyword), 0, 0, 0, 0, 0, ...new TextEncoder().encode(text)]));
+};
+
+// Keywords must be 1-79 Latin-1 characters; `entries` with empty text are skipped.
+export const addPngTextChunks = async (png: Blob, entries: Record<string, string>): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  if (!PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) {
+    throw new Error("Not a PNG file.");
+  }
+  // The signature is followed by the IHDR chunk: 4 bytes length, 4 type, 13 data, 4 CRC
+  const headerEnd = PNG_SIGNATURE.length + 12 + new DataView(bytes.buffer).getUint32(PNG_SIGNATURE.length);
+  const chunks = Object.entries(entries)
+    .filter(([, text]) => text)
+    .map(([keyword, text]) => createTextChunk(keyword, text));
+
+  return new Blob([bytes.subarray(0, headerEnd), ...chunks, bytes.subarray(headerEnd)], { type: 'image/png' });
+};
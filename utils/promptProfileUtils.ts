@@ -0,0 +1,167 @@
+import { AspectRatio, ImageAspectRatio } from '../types';
+
+/**
+ * The JSON prompt profile accepted by every prompt field in place of plain text, e.g.
+ * `{ "prompt": "A magical forest", "style": "watercolor", "seed": 42 }`.
+ *
+ * Input that does not start with `{` is a plain prompt. Anything that does is parsed strictly:
+ * syntax errors, unknown fields and wrong types are reported instead of silently ignored.
+ */
+
+export interface PromptProfile {
+  prompt: string;
+  transparent_background?: boolean;
+  // Shown as the loading message while the generation runs
+  progression_text?: string;
+  negative_prompt?: string;
+  style?: string;
+  aspect_ratio?: ImageAspectRatio;
+  seed?: number;
+  // Framing and lens, e.g. "low angle close-up, 35mm"
+  camera?: string;
+}
+
+export interface PromptProfileIssue {
+  message: string;
+  // 1-based line in the input the issue points at, when known
+  line?: number;
+}
+
+export interface ParsedPromptProfile {
+  profile: PromptProfile;
+  issues: PromptProfileIssue[];
+  isJson: boolean;
+}
+
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const VIDEO_ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16'];
+
+// Largest seed every provider accepts
+const MAX_SEED = 2147483647;
+
+type FieldType = 'string' | 'boolean' | 'number';
+
+const FIELD_TYPES: Record<keyof PromptProfile, FieldType> = {
+  prompt: 'string',
+  transparent_background: 'boolean',
+  progression_text: 'string',
+  negative_prompt: 'string',
+  style: 'string',
+  aspect_ratio: 'string',
+  seed: 'number',
+  camera: 'string',
+};
+
+export const PROMPT_PROFILE_FIELDS = Object.keys(FIELD_TYPES) as (keyof PromptProfile)[];
+
+const isProfileField = (key: string): key is keyof PromptProfile => key in FIELD_TYPES;
+
+const lineAt = (input: string, index: number) => input.slice(0, index).split('\n').length;
+
+// Line of the first `"key":` in the raw input, so an issue can point at the field
+const lineOfField = (input: string, key: string): number | undefined => {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`"${escaped}"\\s*:`).exec(input);
+  return match ? lineAt(input, match.index) : undefined;
+};
+
+// JSON.parse reports where it stopped as "position N" (and in newer engines also "line N")
+const lineOfSyntaxError = (input: string, message: string): number | undefined => {
+  const line = /line (\d+)/.exec(message);
+  if (line) return Number(line[1]);
+  const position = /position (\d+)/.exec(message);
+  return position ? lineAt(input, Number(position[1])) : undefined;
+};
+
+const editDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const suggestField = (key: string): string | undefined => {
+  const normalized = key.toLowerCase().replace(/[\s-]/g, '_');
+  const ranked = PROMPT_PROFILE_FIELDS
+    .map(field => ({ field, distance: editDistance(normalized, field) }))
+    .sort((a, b) => a.distance - b.distance);
+  return ranked[0].distance <= 3 ? ranked[0].field : undefined;
+};
+
+/**
+ * Parses prompt input into a profile and lists everything wrong with it. `aspectRatios` limits
+ * the ratios the calling tool can produce (video only supports 16:9 and 9:16).
+ */
+export const parsePromptProfile = (input: string, aspectRatios: readonly string[] = IMAGE_ASPECT_RATIOS): ParsedPromptProfile => {
+  if (!input.trim().startsWith('{')) {
+    return { profile: { prompt: input }, issues: [], isJson: false };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(input);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return {
+      profile: { prompt: '' },
+      issues: [{ message: `Invalid JSON: ${message}`, line: lineOfSyntaxError(input, message) }],
+      isJson: true,
+    };
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return { profile: { prompt: '' }, issues: [{ message: 'A prompt profile must be a JSON object.', line: 1 }], isJson: true };
+  }
+
+  const issues: PromptProfileIssue[] = [];
+  const profile: Partial<Record<keyof PromptProfile, unknown>> = {};
+
+  Object.entries(json).forEach(([key, value]) => {
+    const line = lineOfField(input, key);
+    if (!isProfileField(key)) {
+      const suggestion = suggestField(key);
+      issues.push({ message: `Unknown field "${key}".${suggestion ? ` Did you mean "${suggestion}"?` : ''}`, line });
+      return;
+    }
+    if (typeof value !== FIELD_TYPES[key]) {
+      issues.push({ message: `"${key}" must be a ${FIELD_TYPES[key]}.`, line });
+      return;
+    }
+    if (key === 'aspect_ratio' && !aspectRatios.includes(value as string)) {
+      issues.push({ message: `"aspect_ratio" must be one of ${aspectRatios.join(', ')}.`, line });
+      return;
+    }
+    if (key === 'seed' && (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_SEED)) {
+      issues.push({ message: `"seed" must be a whole number between 0 and ${MAX_SEED}.`, line });
+      return;
+    }
+    profile[key] = value;
+  });
+
+  if (!('prompt' in json)) {
+    issues.push({ message: 'The "prompt" field is required.', line: 1 });
+  } else if (typeof profile.prompt === 'string' && !profile.prompt.trim()) {
+    issues.push({ message: '"prompt" must not be empty.', line: lineOfField(input, 'prompt') });
+  }
+
+  return { profile: { ...profile, prompt: (profile.prompt as string) || '' } as PromptProfile, issues, isJson: true };
+};
+
+// Style, camera and negative prompt as sentences appended to the prompt, worded the same for every tool
+export const describeProfileDetails = (profile: PromptProfile): string => {
+  const details: string[] = [];
+  if (profile.style) details.push(`Style: ${profile.style}.`);
+  if (profile.camera) details.push(`Camera: ${profile.camera}.`);
+  if (profile.negative_prompt) details.push(`Avoid: ${profile.negative_prompt}.`);
+  return details.length > 0 ? ` ${details.join(' ')}` : '';
+};
+
+export const formatProfileIssue = (issue: PromptProfileIssue) =>
+  issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message;
@@ -0,0 +1,124 @@
+import { Character } from '../types';
+import { PromptProfileIssue } from './promptProfileUtils';
+
+/**
+ * Variables in prompt inputs, e.g. `{{Alice.prompt}} waves at {{Bob.name}} in {{scene.name}}`.
+ * A character is referenced by its name in the library, and `scene` is the scene loaded in the
+ * builder. Unknown references are reported rather than left in the prompt.
+ */
+
+export interface TemplateContext {
+  characters: Character[];
+  sceneName?: string;
+}
+
+export interface TemplateSuggestion {
+  // What goes between the braces, e.g. "Alice.prompt"
+  value: string;
+  detail: string;
+}
+
+export interface ExpandedTemplate {
+  text: string;
+  issues: PromptProfileIssue[];
+  // Whether the input contained any variables at all
+  hasVariables: boolean;
+  // Maps a line of `text` back to the line of the input it came from, for issues found in `text`
+  toInputLine: (line: number) => number;
+}
+
+const VARIABLE_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+const CHARACTER_PROPERTIES = ['name', 'prompt'] as const;
+
+const lineAt = (input: string, index: number) => input.slice(0, index).split('\n').length;
+
+interface Replacement {
+  offset: number;
+  match: string;
+  value: string;
+}
+
+// The input line of each line of the expanded text. Lines inside an inserted value point at
+// the line of its variable.
+const traceInputLines = (input: string, replacements: Replacement[]): number[] => {
+  const lines = [1];
+  let inputLine = 1;
+  let position = 0;
+  const copyLiteral = (literal: string) => literal.split('\n').slice(1).forEach(() => lines.push(++inputLine));
+  replacements.forEach(({ offset, match, value }) => {
+    copyLiteral(input.slice(position, offset));
+    value.split('\n').slice(1).forEach(() => lines.push(inputLine));
+    inputLine += match.split('\n').length - 1;
+    position = offset + match.length;
+  });
+  copyLiteral(input.slice(position));
+  return lines;
+};
+
+const findCharacters = (characters: Character[], name: string) => {
+  const exact = characters.filter(character => character.name === name);
+  return exact.length > 0 ? exact : characters.filter(character => character.name.toLowerCase() === name.toLowerCase());
+};
+
+// The value of one reference, or why it has none
+const resolveReference = (reference: string, context: TemplateContext): { value: string } | { error: string } => {
+  // Names may contain dots, so the property is whatever follows the last one
+  const dot = reference.lastIndexOf('.');
+  if (dot <= 0) {
+    return { error: `"{{${reference}}}" needs a property, e.g. {{${reference || 'Name'}.prompt}}.` };
+  }
+  const target = reference.slice(0, dot).trim();
+  const property = reference.slice(dot + 1).trim();
+
+  if (target === 'scene') {
+    if (property !== 'name') return { error: `Unknown scene property "${property}". Use {{scene.name}}.` };
+    if (!context.sceneName) return { error: 'No scene is loaded, so {{scene.name}} has no value.' };
+    return { value: context.sceneName };
+  }
+
+  const matches = findCharacters(context.characters, target);
+  if (matches.length === 0) return { error: `No character named "${target}" in the library.` };
+  if (matches.length > 1) return { error: `Several characters are named "${target}"; rename one to reference it.` };
+  if (!(CHARACTER_PROPERTIES as readonly string[]).includes(property)) {
+    return { error: `Unknown character property "${property}". Use ${CHARACTER_PROPERTIES.map(p => `{{${target}.${p}}}`).join(' or ')}.` };
+  }
+  return { value: matches[0][property as typeof CHARACTER_PROPERTIES[number]] };
+};
+
+/**
+ * Replaces every variable in `input`. Inside a JSON prompt profile the values are escaped as
+ * JSON string content, so a character prompt with quotes or line breaks keeps the profile valid.
+ */
+export const expandPromptTemplate = (input: string, context: TemplateContext): ExpandedTemplate => {
+  const isJson = input.trim().startsWith('{');
+  const issues: PromptProfileIssue[] = [];
+  const replacements: Replacement[] = [];
+
+  const text = input.replace(VARIABLE_PATTERN, (match, reference: string, offset: number) => {
+    const resolved = resolveReference(reference.trim(), context);
+    if ('error' in resolved) {
+      issues.push({ message: resolved.error, line: lineAt(input, offset) });
+      return match;
+    }
+    const value = isJson ? JSON.stringify(resolved.value).slice(1, -1) : resolved.value;
+    replacements.push({ offset, match, value });
+    return value;
+  });
+
+  const inputLines = traceInputLines(input, replacements);
+  return {
+    text,
+    issues,
+    hasVariables: issues.length > 0 || replacements.length > 0,
+    toInputLine: line => inputLines[line - 1] ?? line,
+  };
+};
+
+export const getTemplateSuggestions = (context: TemplateContext): TemplateSuggestion[] => [
+  ...context.characters.flatMap(character => [
+    { value: `${character.name}.name`, detail: character.name },
+    { value: `${character.name}.prompt`, detail: character.prompt || 'No prompt' },
+  ]),
+  ...(context.sceneName ? [{ value: 'scene.name', detail: context.sceneName }] : []),
+];
@@ -0,0 +1,32 @@
+import { Scene, SceneRevision } from '../types';
+
+// Every revision keeps its own copy of the generated output, so the history is capped.
+export const MAX_SCENE_REVISIONS = 25;
+
+export const createSceneRevision = (scene: Omit<Scene, 'id' | 'name' | 'createdAt' | 'revisions'>): SceneRevision => ({
+  id: crypto.randomUUID(),
+  savedAt: Date.now(),
+  characterIds: scene.characterIds,
+  prompt: scene.prompt,
+  soundEffect: scene.soundEffect,
+  rotations: scene.rotations,
+  positions: scene.positions,
+  aspectRatio: scene.aspectRatio,
+  generatedContent: scene.generatedContent,
+});
+
+export const appendRevision = (revisions: SceneRevision[] | undefined, revision: SceneRevision): SceneRevision[] => {
+  return [...(revisions || []), revision].slice(-MAX_SCENE_REVISIONS);
+};
+
+// A scene with its composition replaced by that of one of its revisions
+export const sceneAtRevision = (scene: Scene, revision: SceneRevision): Scene => ({
+  ...scene,
+  characterIds: revision.characterIds,
+  prompt: revision.prompt,
+  soundEffect: revision.soundEffect,
+  rotations: revision.rotations,
+  positions: revision.positions,
+  aspectRatio: revision.aspectRatio,
+  generatedContent: revision.generatedContent,
+});
@@ -0,0 +1,239 @@
+import { Character, CharacterReference, Scene, SceneBundle, SceneRevision, SoundEffect } from '../types';
+import { CHARACTER_VIEWS } from './characterViewUtils';
+import { IMAGE_ASPECT_RATIOS } from './promptProfileUtils';
+
+/**
+ * Versioned envelope for exported JSON files and persisted records.
+ *
+ * Every payload we write is wrapped as `{ format, version, data }`. When reading, older
+ * versions are upgraded one step at a time through the format's migration chain, so files
+ * exported long ago keep importing after `Character` or `Scene` gain fields.
+ * Payloads without an envelope predate versioning and are treated as version 0.
+ */
+
+export const PAYLOAD_FORMATS = {
+  CHARACTER: 'css.character',
+  CHARACTER_LIBRARY: 'css.character-library',
+  SCENE: 'css.scene',
+  SCENE_BUNDLE: 'css.scene-bundle',
+  SOUND: 'css.sound',
+  AUTOSAVE: 'css.autosave',
+} as const;
+
+export type PayloadFormat = typeof PAYLOAD_FORMATS[keyof typeof PAYLOAD_FORMATS];
+
+export interface PayloadEnvelope<T = unknown> {
+  format: PayloadFormat;
+  version: number;
+  data: T;
+}
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+// Each step upgrades a payload from version `index` to `index + 1`.
+type Migration = (data: any) => any;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Early exports could hold numeric ids. Anything else is left as it is, so validation rejects
+// the record instead of every id-less record ending up with the id "undefined".
+const migrateId = (id: unknown) => typeof id === 'number' ? String(id) : id;
+
+// Entries that are not objects at all are passed through for validation to skip
+const SOUND_MIGRATIONS: Migration[] = [
+  // 0 -> 1: unversioned sound effects
+  (sound) => isRecord(sound) ? {
+    id: migrateId(sound.id),
+    name: typeof sound.name === 'string' ? sound.name : 'Untitled Sound',
+    url: typeof sound.url === 'string' ? sound.url : '',
+  } : sound,
+];
+
+const CHARACTER_MIGRATIONS: Migration[] = [
+  // 0 -> 1: unversioned characters; `prompt` was optional in early exports
+  (character) => isRecord(character) ? {
+    ...character,
+    id: migrateId(character.id),
+    prompt: typeof character.prompt === 'string' ? character.prompt : '',
+  } : character,
+];
+
+const SCENE_MIGRATIONS: Migration[] = [
+  // 0 -> 1: unversioned scenes
+  (scene) => isRecord(scene) ? {
+    ...scene,
+    id: migrateId(scene.id),
+    prompt: typeof scene.prompt === 'string' ? scene.prompt : '',
+    characterIds: Array.isArray(scene.characterIds) ? scene.characterIds.map(migrateId) : [],
+    createdAt: typeof scene.createdAt === 'number' ? scene.createdAt : Date.now(),
+    soundEffect: isRecord(scene.soundEffect) ? SOUND_MIGRATIONS[0](scene.soundEffect) : undefined,
+  } : scene,
+  // 1 -> 2: revision history; the scene as last saved becomes its first revision
+  (scene) => isRecord(scene) ? {
+    ...scene,
+    revisions: Array.isArray(scene.revisions) ? scene.revisions : [{
+      id: crypto.randomUUID(),
+      savedAt: scene.createdAt,
+      characterIds: scene.characterIds,
+      prompt: scene.prompt,
+      soundEffect: scene.soundEffect,
+      rotations: scene.rotations,
+      positions: scene.positions,
+      generatedContent: scene.generatedContent,
+    }],
+  } : scene,
+];
+
+const SCENE_BUNDLE_MIGRATIONS: Migration[] = [
+  // 0 -> 1: unversioned bundles
+  (bundle) => isRecord(bundle) ? {
+    ...bundle,
+    scene: SCENE_MIGRATIONS[0](bundle.scene),
+    characters: Array.isArray(bundle.characters) ? bundle.characters.map(CHARACTER_MIGRATIONS[0]) : [],
+  } : bundle,
+  // 1 -> 2: scene revision history
+  (bundle) => isRecord(bundle) ? {
+    ...bundle,
+    scene: SCENE_MIGRATIONS[1](bundle.scene),
+  } : bundle,
+];
+
+const AUTOSAVE_MIGRATIONS: Migration[] = [
+  // 0 -> 1: unversioned autosave snapshot
+  (snapshot) => isRecord(snapshot) ? {
+    ...snapshot,
+    soundEffect: isRecord(snapshot.soundEffect) ? SOUND_MIGRATIONS[0](snapshot.soundEffect) : undefined,
+  } : snapshot,
+  // 1 -> 2: single snapshot becomes one of several autosave slots
+  (snapshot) => {
+    if (!isRecord(snapshot)) return snapshot;
+    const { timestamp, ...rest } = snapshot;
+    return {
+      id: crypto.randomUUID(),
+      savedAt: typeof timestamp === 'number' ? timestamp : Date.now(),
+      characterIds: Array.isArray(rest.characterIds) ? rest.characterIds : [],
+      prompt: typeof rest.prompt === 'string' ? rest.prompt : '',
+      soundEffect: rest.soundEffect,
+      rotations: rest.rotations,
+      positions: rest.positions,
+      currentSceneId: null,
+    };
+  },
+];
+
+const MIGRATIONS: Record<PayloadFormat, Migration[]> = {
+  [PAYLOAD_FORMATS.CHARACTER]: CHARACTER_MIGRATIONS,
+  // A library at version N holds characters at version N.
+  [PAYLOAD_FORMATS.CHARACTER_LIBRARY]: CHARACTER_MIGRATIONS.map(step => (characters: any) => Array.isArray(characters) ? characters.map(step) : characters),
+  [PAYLOAD_FORMATS.SCENE]: SCENE_MIGRATIONS,
+  [PAYLOAD_FORMATS.SCENE_BUNDLE]: SCENE_BUNDLE_MIGRATIONS,
+  [PAYLOAD_FORMATS.SOUND]: SOUND_MIGRATIONS,
+  [PAYLOAD_FORMATS.AUTOSAVE]: AUTOSAVE_MIGRATIONS,
+};
+
+export const currentVersion = (format: PayloadFormat): number => MIGRATIONS[format].length;
+
+export const wrapPayload = <T>(format: PayloadFormat, data: T): PayloadEnvelope<T> => ({
+  format,
+  version: currentVersion(format),
+  data,
+});
+
+/**
+ * Upgrades `data` written at `version` to the current version of `format`.
+ */
+export const migratePayload = <T>(format: PayloadFormat, version: number, data: unknown): T => {
+  const steps = MIGRATIONS[format];
+  if (!Number.isInteger(version) || version < 0) {
+    throw new SchemaError(`Invalid ${format} version "${version}".`);
+  }
+  if (version > steps.length) {
+    throw new SchemaError(`This file was created by a newer version of the studio (${format} v${version}). Please update and try again.`);
+  }
+  return steps.slice(version).reduce((current, step) => step(current), data) as T;
+};
+
+const isEnvelope = (value: unknown): value is PayloadEnvelope =>
+  isRecord(value) && typeof value.format === 'string' && typeof value.version === 'number' && 'data' in value;
+
+// Unversioned exports carried no format marker, so recognise them by shape.
+const detectLegacyFormat = (value: unknown): PayloadFormat | null => {
+  if (Array.isArray(value)) return PAYLOAD_FORMATS.CHARACTER_LIBRARY;
+  if (!isRecord(value)) return null;
+  // Autosave snapshots look like scenes but never had an id.
+  if ('timestamp' in value && !('id' in value)) return PAYLOAD_FORMATS.AUTOSAVE;
+  if (Array.isArray(value.characterIds)) return PAYLOAD_FORMATS.SCENE;
+  if ('imageUrl' in value) return PAYLOAD_FORMATS.CHARACTER;
+  return null;
+};
+
+/**
+ * Reads a (possibly legacy) payload, checks that it is one of the `accepted` formats, and
+ * upgrades it to the current version.
+ */
+export const unwrapPayload = (raw: unknown, accepted: PayloadFormat[]): { format: PayloadFormat; data: unknown } => {
+  let format: PayloadFormat | null;
+  let version: number;
+  let data: unknown;
+
+  if (isEnvelope(raw)) {
+    format = raw.format in MIGRATIONS ? raw.format : null;
+    version = raw.version;
+    data = raw.data;
+  } else {
+    format = detectLegacyFormat(raw);
+    version = 0;
+    data = raw;
+  }
+
+  if (!format || !accepted.includes(format)) {
+    throw new SchemaError(`Unsupported file format. Expected ${accepted.join(' or ')}.`);
+  }
+
+  return { format, data: migratePayload(format, version, data) };
+};
+
+export const isValidSoundEffect = (value: unknown): value is SoundEffect =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.url === 'string';
+
+const isValidCharacterReference = (value: unknown): value is CharacterReference =>
+  isRecord(value) &&
+  CHARACTER_VIEWS.includes(value.view as CharacterReference['view']) &&
+  typeof value.imageUrl === 'string' && value.imageUrl.length > 0;
+
+export const isValidCharacter = (value: unknown): value is Character =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.imageUrl === 'string' && value.imageUrl.length > 0 &&
+  typeof value.prompt === 'string' &&
+  (value.references === undefined || (Array.isArray(value.references) && value.references.every(isValidCharacterReference)));
+
+// The fields a scene shares with each of its revisions
+const hasValidComposition = (value: Record<string, any>) =>
+  typeof value.id === 'string' &&
+  typeof value.prompt === 'string' &&
+  Array.isArray(value.characterIds) && value.characterIds.every((id: unknown) => typeof id === 'string') &&
+  (value.soundEffect === undefined || isValidSoundEffect(value.soundEffect)) &&
+  (value.aspectRatio === undefined || IMAGE_ASPECT_RATIOS.includes(value.aspectRatio));
+
+const isValidSceneRevision = (value: unknown): value is SceneRevision =>
+  isRecord(value) && hasValidComposition(value) && typeof value.savedAt === 'number';
+
+export const isValidScene = (value: unknown): value is Scene =>
+  isRecord(value) &&
+  hasValidComposition(value) &&
+  typeof value.name === 'string' &&
+  typeof value.createdAt === 'number' &&
+  (value.revisions === undefined || (Array.isArray(value.revisions) && value.revisions.every(isValidSceneRevision)));
+
+export const isValidSceneBundle = (value: unknown): value is SceneBundle =>
+  isRecord(value) &&
+  isValidScene(value.scene) &&
+  Array.isArray(value.characters) && value.characters.every(isValidCharacter);
@@ -0,0 +1,62 @@
+import { ProviderId } from '../types';
+import { MODEL_NAMES, ModelCapability } from '../constants';
+import { UsagePeriod } from './usageUtils';
+
+const SETTINGS_KEY = 'css_settings';
+
+export interface AppSettings {
+  provider: ProviderId;
+  // Overrides the key built into the app when set
+  apiKey: string;
+  models: Record<ModelCapability, string>;
+  // How many queued generations may run at the same time
+  jobConcurrency: number;
+  // Reuse earlier results for identical generation inputs instead of calling the provider again
+  resultCache: boolean;
+  resultCacheLimitMb: number;
+  // Alternative images requested per image or scene generation, to pick the best from
+  candidateCount: number;
+  // Estimated spending per day or week; scenes and videos warn past the soft limit and are refused past the hard one. 0 is off.
+  usageLimitPeriod: UsagePeriod;
+  usageSoftLimitUsd: number;
+  usageHardLimitUsd: number;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  apiKey: '',
+  models: MODEL_NAMES,
+  jobConcurrency: 2,
+  resultCache: false,
+  resultCacheLimitMb: 100,
+  candidateCount: 1,
+  usageLimitPeriod: 'day',
+  usageSoftLimitUsd: 0,
+  usageHardLimitUsd: 0,
+};
+
+export const JOB_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export const RESULT_CACHE_LIMIT_OPTIONS = [25, 100, 250, 500];
+
+export const CANDIDATE_COUNT_OPTIONS = [1, 2, 3, 4];
+
+// Read on every generation call so that changes apply without a reload.
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw);
+    // Merged separately so that capabilities added later get their default model
+    return { ...DEFAULT_SETTINGS, ...stored, models: { ...DEFAULT_SETTINGS.models, ...stored.models } };
+  } catch (e) {
+    console.error("Failed to read settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const getModelName = (capability: ModelCapability): string => loadSettings().models[capability] || MODEL_NAMES[capability];
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
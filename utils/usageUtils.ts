@@ -0,0 +1,178 @@
+/**
+ * Local ledger of every paid API request, used for the usage view and the spending limits.
+ * Costs are estimates from list prices; the billing console has the real numbers.
+ */
+
+const USAGE_KEY = 'css_usage';
+
+// Long enough for the weekly view
+const MAX_ENTRY_AGE_MS = 12 * 7 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UsageTool = 'describe' | 'image' | 'scene' | 'edit' | 'speech' | 'video';
+
+export type UsagePeriod = 'day' | 'week';
+
+export interface UsageAmount {
+  tool: UsageTool;
+  model: string;
+  images?: number;
+  videoSeconds?: number;
+  ttsCharacters?: number;
+}
+
+export interface UsageEntry extends UsageAmount {
+  timestamp: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  images: number;
+  videoSeconds: number;
+  ttsCharacters: number;
+  costUsd: number;
+}
+
+export interface UsageLimitCheck {
+  status: 'ok' | 'warn' | 'block';
+  // Spent in the current period, before the checked call
+  spentUsd: number;
+  message?: string;
+}
+
+export const USAGE_TOOL_LABELS: Record<UsageTool, string> = {
+  describe: 'Character descriptions',
+  image: 'Image generation',
+  scene: 'Scenes',
+  edit: 'Image edits',
+  speech: 'Speech',
+  video: 'Video',
+};
+
+// Veo returns 8-second clips unless asked for another length
+export const VIDEO_CLIP_SECONDS = 8;
+
+// Rough list prices in USD for the default models
+const PRICES = {
+  perImage: { image: 0.04, scene: 0.039, edit: 0.039 } as Partial<Record<UsageTool, number>>,
+  perVideoSecond: 0.15,
+  perThousandTtsCharacters: 0.02,
+  perDescription: 0.001,
+};
+
+export const estimateCost = (amount: UsageAmount): number => {
+  if (amount.tool === 'describe') return PRICES.perDescription;
+  return (amount.images || 0) * (PRICES.perImage[amount.tool] || 0)
+    + (amount.videoSeconds || 0) * PRICES.perVideoSecond
+    + (amount.ttsCharacters || 0) / 1000 * PRICES.perThousandTtsCharacters;
+};
+
+export const loadUsage = (): UsageEntry[] => {
+  try {
+    const raw = localStorage.getItem(USAGE_KEY);
+    const entries: UsageEntry[] = raw ? JSON.parse(raw) : [];
+    return entries.filter(entry => Date.now() - entry.timestamp < MAX_ENTRY_AGE_MS);
+  } catch (e) {
+    console.error("Failed to read the usage ledger", e);
+    return [];
+  }
+};
+
+// Never throws: a full or unavailable localStorage must not fail the generation that was just paid for
+export const recordUsage = (amount: UsageAmount) => {
+  try {
+    const entry: UsageEntry = { ...amount, timestamp: Date.now(), costUsd: estimateCost(amount) };
+    localStorage.setItem(USAGE_KEY, JSON.stringify([...loadUsage(), entry]));
+  } catch (e) {
+    console.error("Failed to record usage", e);
+  }
+};
+
+export const clearUsage = () => {
+  localStorage.removeItem(USAGE_KEY);
+};
+
+// Local midnight of the day, or of the Monday of the week, that `time` falls in
+export const periodStart = (period: UsagePeriod, time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  return date.getTime();
+};
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, images: 0, videoSeconds: 0, ttsCharacters: 0, costUsd: 0 });
+
+export const sumUsage = (entries: UsageEntry[]): UsageTotals => entries.reduce((totals, entry) => ({
+  requests: totals.requests + 1,
+  images: totals.images + (entry.images || 0),
+  videoSeconds: totals.videoSeconds + (entry.videoSeconds || 0),
+  ttsCharacters: totals.ttsCharacters + (entry.ttsCharacters || 0),
+  costUsd: totals.costUsd + entry.costUsd,
+}), emptyTotals());
+
+// The last `count` days or weeks, newest first, including empty ones
+export const summarizeUsage = (entries: UsageEntry[], period: UsagePeriod, count: number): { start: number; totals: UsageTotals }[] => {
+  const starts: number[] = [];
+  let start = periodStart(period, Date.now());
+  for (let i = 0; i < count; i++) {
+    starts.push(start);
+    // Stepping back from noon keeps daylight saving changes from skipping a day
+    start = periodStart(period, start - (period === 'day' ? DAY_MS : 7 * DAY_MS) + DAY_MS / 2);
+  }
+  return starts.map((periodStartTime, index) => {
+    const end = index === 0 ? Infinity : starts[index - 1];
+    return { start: periodStartTime, totals: sumUsage(entries.filter(entry => entry.timestamp >= periodStartTime && entry.timestamp < end)) };
+  });
+};
+
+// Estimated costs of calls still in flight in this tab. Usage is only recorded once a call succeeds,
+// so without these, jobs running side by side would all pass the check against the same total.
+const reservations = new Map<string, number>();
+
+/**
+ * Counts `estimatedCostUsd` against the limits until the returned function is called, which the
+ * caller does once the call has settled and its actual usage, if any, has been recorded.
+ */
+export const reserveUsage = (estimatedCostUsd: number): (() => void) => {
+  const id = crypto.randomUUID();
+  reservations.set(id, estimatedCostUsd);
+  return () => {
+    reservations.delete(id);
+  };
+};
+
+const reservedUsd = () => Array.from(reservations.values()).reduce((sum, cost) => sum + cost, 0);
+
+export const formatCost = (usd: number) => `$${usd.toFixed(usd > 0 && usd < 1 ? 3 : 2)}`;
+
+/**
+ * Compares what the current day or week has cost so far, plus the calls in flight and
+ * `estimatedCostUsd` for the call about to be made, against the limits. A limit of 0 is off.
+ */
+export const checkUsageLimit = (
+  estimatedCostUsd: number,
+  limits: { period: UsagePeriod; softUsd: number; hardUsd: number }
+): UsageLimitCheck => {
+  const since = periodStart(limits.period, Date.now());
+  const spentUsd = sumUsage(loadUsage().filter(entry => entry.timestamp >= since)).costUsd;
+  const projected = spentUsd + reservedUsd() + estimatedCostUsd;
+  const periodLabel = limits.period === 'day' ? 'today' : 'this week';
+
+  if (limits.hardUsd > 0 && projected > limits.hardUsd) {
+    return {
+      status: 'block',
+      spentUsd,
+      message: `This would take spending ${periodLabel} to about ${formatCost(projected)}, over the hard limit of ${formatCost(limits.hardUsd)}.`,
+    };
+  }
+  if (limits.softUsd > 0 && projected > limits.softUsd) {
+    return {
+      status: 'warn',
+      spentUsd,
+      message: `This would take spending ${periodLabel} to about ${formatCost(projected)}, over the soft limit of ${formatCost(limits.softUsd)}.`,
+    };
+  }
+  return { status: 'ok', spentUsd };
+};